@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { getAttachment, getUserChat, readAttachmentData } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const attachmentId = searchParams.get("id");
+
+  if (!attachmentId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const found = getAttachment(attachmentId);
+  const attachment = found && getUserChat(user.id, found.chatId) ? found : null;
+  const data = attachment ? readAttachmentData(attachmentId) : null;
+  if (!attachment || !data) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  const disposition = searchParams.get("download") === "1" ? "attachment" : "inline";
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": attachment.mimeType,
+      "Content-Length": String(data.byteLength),
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      "Cache-Control": "private, max-age=31536000, immutable",
+      "Content-Security-Policy": "sandbox",
+      "X-Content-Type-Options": "nosniff"
+    }
+  });
+}
@@ -1,57 +1,110 @@
 import { NextResponse } from "next/server";
-
-const AUTH_COOKIE = "site_auth";
-const APP_PASSWORD = (process.env.APP_PASSWORD ?? "33405").trim();
+import {
+  clearSessionCookie,
+  createSessionId,
+  ensureBootstrapAdmin,
+  getDummyPasswordHash,
+  getRequestSessionId,
+  getRequestUser,
+  hashSessionId,
+  setSessionCookie,
+  unauthorizedResponse,
+  verifyPassword
+} from "@/lib/auth";
+import {
+  addLoginAuditEntry,
+  createSession,
+  deleteSession,
+  getUserCredentials
+} from "@/lib/db";
+import {
+  formatRetryAfter,
+  getClientIp,
+  getLoginRetryAfter,
+  registerLoginFailure,
+  registerLoginSuccess
+} from "@/lib/login-throttle";
+import { SESSION_TTL_SECONDS } from "@/lib/session-token";
 
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-function isSecureRequest(req: Request) {
-  const forwardedProto = req.headers.get("x-forwarded-proto");
-  if (forwardedProto) {
-    return forwardedProto.split(",")[0]?.trim() === "https";
-  }
+function lockedResponse(retryAfter: number) {
+  return NextResponse.json(
+    {
+      error: `Слишком много неудачных попыток входа. Повторите через ${formatRetryAfter(retryAfter)}`,
+      retryAfter
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
 
-  try {
-    return new URL(req.url).protocol === "https:";
-  } catch {
-    return false;
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
   }
+
+  return NextResponse.json({ user }, { headers: { "Cache-Control": "no-store" } });
 }
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const password = typeof body?.password === "string" ? body.password.trim() : "";
-  const secureCookie = isSecureRequest(req);
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
 
-  if (password !== APP_PASSWORD) {
-    return NextResponse.json({ error: "Неверный пароль" }, { status: 401 });
+  if (!username || !password) {
+    return NextResponse.json({ error: "Введите логин и пароль" }, { status: 400 });
   }
 
-  const response = NextResponse.json({ ok: true });
-  response.cookies.set({
-    name: AUTH_COOKIE,
-    value: "1",
-    httpOnly: true,
-    secure: secureCookie,
-    sameSite: "lax",
-    path: "/",
-    maxAge: 60 * 60 * 24 * 7
-  });
+  const attempt = {
+    username,
+    ip: getClientIp(req),
+    userAgent: req.headers.get("user-agent")
+  };
+
+  const lockedFor = getLoginRetryAfter(attempt.username, attempt.ip);
+  if (lockedFor > 0) {
+    addLoginAuditEntry({ ...attempt, reason: "locked" });
+    return lockedResponse(lockedFor);
+  }
 
+  ensureBootstrapAdmin();
+
+  const credentials = getUserCredentials(username);
+  const passwordMatches = verifyPassword(
+    password,
+    credentials?.passwordHash ?? getDummyPasswordHash()
+  );
+  if (!credentials || !passwordMatches) {
+    const retryAfter = registerLoginFailure({
+      ...attempt,
+      reason: credentials ? "bad_password" : "unknown_user"
+    });
+    if (retryAfter > 0) {
+      return lockedResponse(retryAfter);
+    }
+    return NextResponse.json({ error: "Неверный логин или пароль" }, { status: 401 });
+  }
+
+  registerLoginSuccess(username);
+
+  const { passwordHash: _passwordHash, ...user } = credentials;
+  const sessionId = createSessionId();
+  createSession(hashSessionId(sessionId), user.id, SESSION_TTL_SECONDS);
+
+  const response = NextResponse.json({ ok: true, user });
+  setSessionCookie(response, req, sessionId);
   return response;
 }
 
 export async function DELETE(req: Request) {
-  const secureCookie = isSecureRequest(req);
+  const sessionId = getRequestSessionId(req);
+  if (sessionId) {
+    deleteSession(hashSessionId(sessionId));
+  }
+
   const response = NextResponse.json({ ok: true });
-  response.cookies.set({
-    name: AUTH_COOKIE,
-    value: "",
-    httpOnly: true,
-    secure: secureCookie,
-    sameSite: "lax",
-    path: "/",
-    maxAge: 0
-  });
+  clearSessionCookie(response, req);
   return response;
 }
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { listFileFormats } from "@/lib/file-converters";
+import { getTranscriptionEngine } from "@/lib/transcription";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  if (!getRequestUser(req)) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json(
+    { fileFormats: listFileFormats(), transcription: Boolean(getTranscriptionEngine()) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
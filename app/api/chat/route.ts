@@ -1,24 +1,65 @@
 import crypto from "crypto";
-import OpenAI from "openai";
-import mammoth from "mammoth";
 import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { findFileConverter, getFileMimeType } from "@/lib/file-converters";
+import {
+  getAudioExtension,
+  isSupportedAudio,
+  normalizeAudioMimeType,
+  transcribeAudio
+} from "@/lib/transcription";
+import { buildKnowledgeContext, KNOWLEDGE_SPACES, searchKnowledge } from "@/lib/knowledge";
+import { calculateCost } from "@/lib/pricing";
+import {
+  executeToolCall,
+  getSpaceToolList,
+  getToolLabel,
+  toToolDefinitions,
+  type ChatTool
+} from "@/lib/tools";
+import {
+  checkUsageQuota,
+  formatQuotaExceeded,
+  getQuotaRetryAfter,
+  getQuotaWarnings
+} from "@/lib/quotas";
+import {
+  estimateMessageTokens,
+  estimateTextTokens,
+  fitHistoryToBudget,
+  getHistoryBudget,
+  type ContextMessage
+} from "@/lib/context-window";
 import {
   addMessage,
-  getChat,
-  listMessages,
-  updateChatTitleIfDefault
+  getMessage,
+  getUserChat,
+  listBranchMessages,
+  readAttachmentData,
+  recordUsage,
+  updateChatSettings,
+  updateChatTitleIfDefault,
+  type AttachmentKind,
+  type ChatSettings,
+  type KnowledgeSource,
+  type MessageUsage,
+  type NewAttachment,
+  type StoredMessage,
+  type ToolCallRecord,
+  type UsageKind
 } from "@/lib/db";
-
-type Provider = "openai" | "gemini";
-
-type ContentPart =
-  | { type: "input_text" | "output_text"; text: string }
-  | { type: "input_image"; image_url: string }
-  | { type: "input_file"; file_data: string; filename: string };
-
-type GeminiPart =
-  | { text: string }
-  | { inline_data: { mime_type: string; data: string } };
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  parseChatSettings,
+  resolveGenerationSettings,
+  type ProviderAdapter,
+  type ProviderMessage,
+  type ProviderMessagePart,
+  type GeneratedImage,
+  type TokenUsage,
+  type ToolCall
+} from "@/lib/providers";
 
 type IncomingFile = {
   name: string;
@@ -27,27 +68,87 @@ type IncomingFile = {
   size?: number;
 };
 
+type HistoryAttachment = {
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  data?: string;
+  attachmentId?: string;
+};
+
 type HistoryMessage = {
+  id?: string;
   role: "user" | "assistant";
   text: string;
+  attachments: HistoryAttachment[];
 };
 
-const OPENAI_MODEL = "gpt-5.2";
-const GEMINI_MODEL = "gemini-2.5-flash";
+/**
+ * `native` uploads PDFs as files where the provider accepts them and extracts
+ * text otherwise; `text` always sends extracted text.
+ */
+type FileMode = "native" | "text";
 
+type FileOptions = {
+  fileMode: FileMode;
+  nativeFileTypes: string[];
+};
+
+type SavedMessageRef = { id: string; parentId: string | null };
+
+type ExchangeResult = {
+  assistantMessage: SavedMessageRef;
+  userMessage: SavedMessageRef | null;
+  usage: MessageUsage | null;
+  /** Generated images: attachment URLs, or data URLs for temporary chats. */
+  images: string[];
+  toolCalls: ToolCallRecord[];
+  /** Library documents the reply could cite as [n]. */
+  sources: KnowledgeSource[];
+};
+
+type GenerationResult = {
+  outputText: string;
+  usage: TokenUsage | null;
+  images: GeneratedImage[];
+  toolCalls: ToolCallRecord[];
+};
+
+/** Tokens spent so far, kept outside the generation so a failed one is still billed. */
+type UsageMeter = {
+  usage: TokenUsage | null;
+  /** Estimated prompt size, charged for a step that is cut off before it reports usage. */
+  estimatedInputTokens: number;
+};
+
+type StreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool"; call: ToolCallRecord }
+  | ({
+      type: "done";
+      output: string;
+      warnings: string[];
+      transcript: string | null;
+    } & ExchangeResult)
+  | { type: "error"; error: string };
+
+/** Temporary chats are not stored; their usage is booked to this space. */
+const EPHEMERAL_SPACE = 4;
 const MAX_IMAGES = 6;
 const MAX_FILES = 5;
 const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
 const MAX_FILE_BYTES = 20 * 1024 * 1024;
-const MAX_HISTORY_MESSAGES = 40;
-
-let openAiClient: OpenAI | null = null;
-
-function getOpenAiClient(apiKey: string) {
-  if (!openAiClient) {
-    openAiClient = new OpenAI({ apiKey });
-  }
-  return openAiClient;
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+/** Model turns that may end in tool calls before the loop is cut off. */
+const MAX_TOOL_STEPS = 5;
+const MAX_KNOWLEDGE_QUERY_CHARS = 2000;
+const HISTORY_ATTACHMENT_BUDGET = parseAttachmentBudget(
+  process.env.HISTORY_ATTACHMENT_BUDGET
+);
+
+function parseAttachmentBudget(value: string | undefined) {
+  const parsed = Number(value ?? "4");
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : 4;
 }
 
 function stripDataUrlPrefix(data: string) {
@@ -71,54 +172,68 @@ function parseImageData(imageUrl: string) {
   };
 }
 
-function getFileMimeType(file: IncomingFile) {
-  const type = typeof file.type === "string" ? file.type : "";
-  if (type) return type;
-
-  const lowerName = file.name.toLowerCase();
-  if (lowerName.endsWith(".pdf")) return "application/pdf";
-  if (lowerName.endsWith(".docx")) {
-    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+/**
+ * Attachments of a client-supplied history message. They get the same limits
+ * as a new message, since they are sent to the provider just the same; throws
+ * with a user-facing message when one is exceeded.
+ */
+function parseHistoryAttachments(item: {
+  images?: unknown;
+  files?: unknown;
+}): HistoryAttachment[] {
+  const attachments: HistoryAttachment[] = [];
+  const images = Array.isArray(item.images) ? item.images : [];
+  const files = Array.isArray(item.files) ? (item.files as IncomingFile[]) : [];
+
+  if (images.length > MAX_IMAGES) {
+    throw new Error(`Можно прикрепить до ${MAX_IMAGES} изображений.`);
   }
-  if (lowerName.endsWith(".xlsx")) {
-    return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  if (files.length > MAX_FILES) {
+    throw new Error(`Можно прикрепить до ${MAX_FILES} файлов.`);
   }
-  if (lowerName.endsWith(".xls")) return "application/vnd.ms-excel";
-  if (lowerName.endsWith(".csv")) return "text/csv";
-  return "application/octet-stream";
-}
 
-function isDocx(mimeType: string, fileName: string) {
-  const lowerName = fileName.toLowerCase();
-  return (
-    mimeType ===
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-    lowerName.endsWith(".docx")
-  );
-}
+  for (const image of images) {
+    if (typeof image !== "string") continue;
+    let imagePayload: { mimeType: string; data: string; bytes: number };
+    try {
+      imagePayload = parseImageData(image);
+    } catch {
+      continue;
+    }
+    if (imagePayload.bytes > MAX_IMAGE_BYTES) {
+      throw new Error(`Изображение слишком большое. Лимит ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`);
+    }
+    const { mimeType, data } = imagePayload;
+    attachments.push({ kind: "image", name: "image", mimeType, data });
+  }
 
-function isCsv(mimeType: string, fileName: string) {
-  const lowerName = fileName.toLowerCase();
-  return mimeType === "text/csv" || lowerName.endsWith(".csv");
-}
+  for (const file of files) {
+    if (!file || typeof file.name !== "string" || typeof file.data !== "string") {
+      continue;
+    }
+    const data = stripDataUrlPrefix(file.data);
+    const fileName = file.name || "document";
+    if (Buffer.from(data, "base64").byteLength > MAX_FILE_BYTES) {
+      throw new Error(
+        `Файл ${fileName} слишком большой. Максимум ${MAX_FILE_BYTES / (1024 * 1024)} MB.`
+      );
+    }
+    attachments.push({
+      kind: "file",
+      name: fileName,
+      mimeType: getFileMimeType(file.name, typeof file.type === "string" ? file.type : ""),
+      data
+    });
+  }
 
-function isSupportedBinaryFile(mimeType: string, fileName: string) {
-  const lowerName = fileName.toLowerCase();
-  return (
-    mimeType === "application/pdf" ||
-    mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-    mimeType === "application/vnd.ms-excel" ||
-    lowerName.endsWith(".pdf") ||
-    lowerName.endsWith(".xlsx") ||
-    lowerName.endsWith(".xls")
-  );
+  return attachments;
 }
 
 function parseHistory(bodyHistory: unknown): HistoryMessage[] {
   if (!Array.isArray(bodyHistory)) return [];
 
   return bodyHistory
-    .filter((item): item is HistoryMessage => {
+    .filter((item): item is HistoryMessage & { images?: unknown; files?: unknown } => {
       return (
         item !== null &&
         typeof item === "object" &&
@@ -126,102 +241,417 @@ function parseHistory(bodyHistory: unknown): HistoryMessage[] {
         (item as HistoryMessage).text !== undefined
       );
     })
-    .map((item): HistoryMessage => ({
-      role: item.role === "assistant" ? "assistant" : "user",
-      text: typeof item.text === "string" ? item.text.trim() : ""
-    }))
-    .filter((item) => item.text.length > 0)
-    .slice(-MAX_HISTORY_MESSAGES);
+    .map((item): HistoryMessage => {
+      const role = item.role === "assistant" ? "assistant" : "user";
+      return {
+        role,
+        text: typeof item.text === "string" ? item.text.trim() : "",
+        attachments: parseHistoryAttachments(item)
+      };
+    })
+    .filter((item) => item.text.length > 0 || item.attachments.length > 0);
 }
 
-function extractOpenAiOutputText(response: unknown) {
-  const responseAny = response as {
-    output_text?: string;
-    output?: Array<{ content?: Array<{ type: string; text?: string }> }>;
+
+async function buildFilePart(
+  fileName: string,
+  mimeType: string,
+  data: string,
+  options: FileOptions
+): Promise<ProviderMessagePart> {
+  const converter = findFileConverter(fileName, mimeType);
+  if (!converter) {
+    throw new Error(`Файл ${fileName} не поддерживается.`);
+  }
+
+  const nativeMimeType = converter.nativeMimeType;
+  const canSendNative = Boolean(nativeMimeType && options.nativeFileTypes.includes(nativeMimeType));
+  const nativePart: ProviderMessagePart = {
+    type: "file",
+    name: fileName,
+    mimeType: nativeMimeType ?? mimeType,
+    data
   };
+  if (options.fileMode === "native" && canSendNative) {
+    return nativePart;
+  }
+
+  let extracted = "";
+  try {
+    extracted = (await converter.convert(Buffer.from(data, "base64"), fileName)).trim();
+  } catch {
+    throw new Error(`Не удалось прочитать файл ${fileName}.`);
+  }
 
-  const outputText =
-    responseAny.output_text ??
-    responseAny.output
-      ?.flatMap((item) => item.content ?? [])
-      .filter((item) => item.type === "output_text")
-      .map((item) => item.text ?? "")
-      .join("") ??
-    "";
+  if (!extracted) {
+    // Scanned PDFs have no text layer; the model can still read them natively.
+    if (canSendNative) return nativePart;
+    throw new Error(
+      nativeMimeType === "application/pdf"
+        ? `В файле ${fileName} нет текстового слоя (возможно, это скан).`
+        : `Файл ${fileName} пустой или без текста.`
+    );
+  }
 
-  return outputText.trim();
+  return { type: "text", text: `Содержимое ${converter.noun} ${fileName}:\n${extracted}` };
 }
 
-function extractGeminiOutputText(payload: unknown) {
-  const parsed = payload as {
-    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+/** Voice recordings are left out: their transcript is already the message text. */
+function toHistoryMessage(message: StoredMessage): HistoryMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    text: message.text.trim(),
+    attachments: message.attachments
+      .filter((attachment) => attachment.kind !== "audio")
+      .map((attachment) => ({
+        kind: attachment.kind,
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        attachmentId: attachment.id
+      }))
   };
+}
+
+/** Re-reads a stored user message so it can be sent again (regenerate or edit). */
+async function loadStoredAttachments(message: StoredMessage, options: FileOptions) {
+  const parts: ProviderMessagePart[] = [];
+  const attachments: NewAttachment[] = [];
+
+  for (const attachment of message.attachments) {
+    const data = readAttachmentData(attachment.id);
+    if (!data) continue;
+
+    const base64 = data.toString("base64");
+    attachments.push({
+      kind: attachment.kind,
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      data,
+      transcript: attachment.transcript
+    });
+    if (attachment.kind === "audio") continue;
 
-  return (
-    parsed.candidates?.[0]?.content?.parts
-      ?.map((part) => part.text ?? "")
-      .join("")
-      .trim() ?? ""
-  );
+    parts.push(
+      attachment.kind === "image"
+        ? { type: "image", mimeType: attachment.mimeType, data: base64 }
+        : await buildFilePart(attachment.name, attachment.mimeType, base64, options)
+    );
+  }
+
+  return { parts, attachments };
 }
 
-function isNetworkError(error: unknown) {
-  if (!(error instanceof Error)) return false;
-  const message = error.message.toLowerCase();
-  return (
-    message.includes("fetch failed") ||
-    message.includes("network") ||
-    message.includes("timed out") ||
-    message.includes("timeout") ||
-    message.includes("enotfound") ||
-    message.includes("econnreset") ||
-    message.includes("eai_again") ||
-    message.includes("aborted")
-  );
+function loadHistoryAttachmentData(attachment: HistoryAttachment) {
+  if (attachment.data) return attachment.data;
+  if (!attachment.attachmentId) return null;
+  return readAttachmentData(attachment.attachmentId)?.toString("base64") ?? null;
 }
 
-function mapProviderError(provider: Provider, error: unknown) {
-  if (isNetworkError(error)) {
-    if (provider === "gemini") {
-      return "Не удалось подключиться к Gemini API. Проверьте интернет, GEMINI_API_KEY и доступ к Google API (в некоторых сетях нужен VPN).";
+/**
+ * Builds provider history, resending only the most recent
+ * HISTORY_ATTACHMENT_BUDGET user attachments; older ones are mentioned by
+ * name. Images generated in replies are not replayed (see `previousReply`).
+ */
+async function buildHistoryMessages(
+  history: HistoryMessage[],
+  options: FileOptions
+): Promise<ContextMessage[]> {
+  const replayed = new Set<HistoryAttachment>();
+  let budget = HISTORY_ATTACHMENT_BUDGET;
+
+  for (let index = history.length - 1; index >= 0 && budget > 0; index -= 1) {
+    if (history[index].role !== "user") continue;
+    const attachments = history[index].attachments;
+    for (let item = attachments.length - 1; item >= 0 && budget > 0; item -= 1) {
+      replayed.add(attachments[item]);
+      budget -= 1;
     }
-    return "Не удалось подключиться к OpenAI API. Проверьте интернет, OPENAI_API_KEY и доступ к api.openai.com.";
   }
 
-  if (error instanceof Error) {
-    return error.message;
+  const messages: ContextMessage[] = [];
+
+  for (const message of history) {
+    const parts: ProviderMessagePart[] = message.text
+      ? [{ type: "text", text: message.text }]
+      : [];
+
+    for (const attachment of message.role === "user" ? message.attachments : []) {
+      let part: ProviderMessagePart | null = null;
+      const data = replayed.has(attachment) ? loadHistoryAttachmentData(attachment) : null;
+
+      if (data) {
+        try {
+          part =
+            attachment.kind === "image"
+              ? { type: "image", mimeType: attachment.mimeType, data }
+              : await buildFilePart(attachment.name, attachment.mimeType, data, options);
+        } catch {
+          part = null;
+        }
+      }
+
+      parts.push(
+        part ?? {
+          type: "text",
+          text:
+            attachment.kind === "image"
+              ? "[Ранее прикреплённое изображение повторно не передаётся]"
+              : `[Ранее прикреплённый файл ${attachment.name} повторно не передаётся]`
+        }
+      );
+    }
+
+    if (parts.length > 0) {
+      messages.push({
+        id: message.id,
+        role: message.role,
+        text: message.text,
+        attachmentNames: message.attachments.map((attachment) => attachment.name),
+        message: { role: message.role, parts }
+      });
+    }
   }
 
-  return "Неизвестная ошибка";
+  return messages;
 }
 
 export const runtime = "nodejs";
 
+function addUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens
+  };
+}
+
+/**
+ * Calls the model, runs the tools it asks for and sends the results back
+ * until it answers without tool calls. Each step is a separate request, so
+ * usage is summed into `meter` as each step reports it and the texts of all
+ * steps make up the reply.
+ */
+async function generateWithTools(
+  provider: ProviderAdapter,
+  payload: unknown,
+  tools: ChatTool[],
+  meter: UsageMeter,
+  stream: {
+    onDelta: (text: string) => void;
+    onToolCall: (record: ToolCallRecord) => void;
+    signal: AbortSignal;
+  } | null
+): Promise<GenerationResult> {
+  const texts: string[] = [];
+  const images: GeneratedImage[] = [];
+  const toolCalls: ToolCallRecord[] = [];
+  let current = payload;
+
+  for (let step = 1; ; step += 1) {
+    let text: string;
+    let calls: ToolCall[];
+
+    if (stream) {
+      stream.signal.throwIfAborted();
+      calls = [];
+      let streamed = "";
+      let started = false;
+      let reported = false;
+      try {
+        text = await provider.stream(current, {
+          onDelta: (delta) => {
+            if (!started && texts.length > 0) stream.onDelta("\n\n");
+            started = true;
+            streamed += delta;
+            stream.onDelta(delta);
+          },
+          onUsage: (usage) => {
+            reported = true;
+            meter.usage = addUsage(meter.usage, usage);
+          },
+          onImage: (image) => images.push(image),
+          onToolCall: (call) => calls.push(call),
+          signal: stream.signal
+        });
+      } catch (error) {
+        // Providers report usage at the end of a stream, so a reply cut off
+        // after it started (or by the client leaving) is charged by estimate.
+        if (!reported && (streamed || stream.signal.aborted)) {
+          meter.usage = addUsage(meter.usage, {
+            inputTokens: meter.estimatedInputTokens,
+            outputTokens: estimateTextTokens(provider, streamed),
+            cachedTokens: 0
+          });
+        }
+        throw error;
+      }
+    } else {
+      const response = await provider.call(current);
+      text = provider.extractText(response);
+      calls = provider.extractToolCalls(response);
+      meter.usage = addUsage(meter.usage, provider.extractUsage(response));
+      images.push(...provider.extractImages(response));
+    }
+
+    if (text) texts.push(text);
+    if (calls.length === 0) break;
+
+    if (step > MAX_TOOL_STEPS) {
+      const note = `[Остановлено: модель продолжала вызывать инструменты после ${MAX_TOOL_STEPS} шагов.]`;
+      stream?.onDelta(texts.length > 0 ? `\n\n${note}` : note);
+      texts.push(note);
+      break;
+    }
+
+    const outputs: string[] = [];
+    for (const call of calls) {
+      const result = await executeToolCall(tools, call);
+      const record: ToolCallRecord = {
+        name: call.name,
+        label: getToolLabel(call.name),
+        arguments: call.arguments,
+        output: result.output,
+        isError: result.isError
+      };
+      toolCalls.push(record);
+      stream?.onToolCall(record);
+      outputs.push(result.isError ? `Ошибка: ${result.output}` : result.output);
+    }
+
+    current = provider.appendToolStep(current, { text, calls, outputs });
+  }
+
+  return { outputText: texts.join("\n\n"), usage: meter.usage, images, toolCalls };
+}
+
 export async function POST(req: Request) {
-  let provider: Provider = "openai";
+  let provider: ProviderAdapter = getProvider(DEFAULT_PROVIDER_ID)!;
+
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
 
   try {
     const body = await req.json();
 
-    provider = body?.provider === "gemini" ? "gemini" : "openai";
     const ephemeral = Boolean(body?.ephemeral);
+    const wantsStream = Boolean(body?.stream);
     const chatId = typeof body?.chatId === "string" ? body.chatId : null;
+    const chat = !ephemeral && chatId ? getUserChat(user.id, chatId) : null;
+
+    if (!ephemeral && !chatId) {
+      return NextResponse.json({ error: "chatId обязателен" }, { status: 400 });
+    }
+
+    if (!ephemeral && !chat) {
+      return NextResponse.json({ error: "Чат не найден" }, { status: 404 });
+    }
+
+    let settings: ChatSettings;
+    if (chat?.settings.provider && body?.settings === undefined) {
+      settings = chat.settings;
+    } else {
+      const parsedSettings = parseChatSettings(body?.settings ?? { provider: body?.provider });
+      if (parsedSettings.error !== undefined) {
+        return NextResponse.json({ error: parsedSettings.error }, { status: 400 });
+      }
+      settings = parsedSettings.settings;
+      if (chat) {
+        updateChatSettings(chat.id, settings);
+      }
+    }
+
+    const generation = resolveGenerationSettings(settings);
+    if (!generation) {
+      return NextResponse.json({ error: "Неизвестный провайдер" }, { status: 400 });
+    }
+    provider = generation.provider;
+
+    if (!provider.isConfigured()) {
+      return NextResponse.json({ error: provider.configError }, { status: 500 });
+    }
+
+    const space = chat?.space ?? EPHEMERAL_SPACE;
+    const quota = checkUsageQuota(user.id, space);
+    if (quota.exceeded) {
+      const retryAfter = getQuotaRetryAfter(quota.exceeded);
+      return NextResponse.json(
+        { error: formatQuotaExceeded(quota.exceeded), retryAfter },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    // Branching: a new user message is attached under parentId, an edit becomes
+    // a sibling of editOf, and regenerateId adds a sibling assistant reply.
+    let parentId: string | null = null;
+    let replyTo: StoredMessage | null = null;
+    let editOf: StoredMessage | null = null;
+
+    if (chat) {
+      const regenerateId = typeof body?.regenerateId === "string" ? body.regenerateId : null;
+      const editOfId = typeof body?.editOf === "string" ? body.editOf : null;
+
+      if (regenerateId) {
+        const target = getMessage(chat.id, regenerateId);
+        replyTo = target?.parentId ? getMessage(chat.id, target.parentId) : null;
+        if (target?.role !== "assistant" || replyTo?.role !== "user") {
+          return NextResponse.json({ error: "Сообщение для повтора не найдено" }, { status: 404 });
+        }
+        parentId = replyTo.parentId;
+      } else if (editOfId) {
+        editOf = getMessage(chat.id, editOfId);
+        if (editOf?.role !== "user") {
+          return NextResponse.json({ error: "Сообщение для правки не найдено" }, { status: 404 });
+        }
+        parentId = editOf.parentId;
+      } else if (typeof body?.parentId === "string" || body?.parentId === null) {
+        parentId = body.parentId;
+        if (parentId && !getMessage(chat.id, parentId)) {
+          return NextResponse.json({ error: "Родительское сообщение не найдено" }, { status: 404 });
+        }
+      } else {
+        parentId = listBranchMessages(chat.id, chat.currentLeafId).at(-1)?.id ?? null;
+      }
+    }
 
-    const text = typeof body?.text === "string" ? body.text.trim() : "";
-    const images = Array.isArray(body?.images)
+    const typedText = replyTo
+      ? replyTo.text.trim()
+      : typeof body?.text === "string"
+        ? body.text.trim()
+        : "";
+    const images = !replyTo && Array.isArray(body?.images)
       ? body.images.filter((item: unknown) => typeof item === "string")
       : [];
 
-    const files = Array.isArray(body?.files)
+    const files = !replyTo && Array.isArray(body?.files)
       ? (body.files.filter(
           (item: IncomingFile) =>
             item && typeof item.name === "string" && typeof item.data === "string"
         ) as IncomingFile[])
       : [];
 
-    if (!text && images.length === 0 && files.length === 0) {
+    const audio: IncomingFile | null =
+      !replyTo &&
+      body?.audio &&
+      typeof body.audio.data === "string" &&
+      typeof body.audio.type === "string"
+        ? body.audio
+        : null;
+
+    const hasStoredAttachments = Boolean((replyTo ?? editOf)?.attachments.length);
+    if (
+      !typedText &&
+      !audio &&
+      images.length === 0 &&
+      files.length === 0 &&
+      !hasStoredAttachments
+    ) {
       return NextResponse.json(
-        { error: "Нужно текстовое сообщение, изображения или файлы" },
+        { error: "Нужно текстовое сообщение, голосовая запись, изображения или файлы" },
         { status: 400 }
       );
     }
@@ -240,32 +670,78 @@ export async function POST(req: Request) {
       );
     }
 
-    if (!ephemeral && !chatId) {
-      return NextResponse.json({ error: "chatId обязателен" }, { status: 400 });
-    }
-
-    if (!ephemeral && chatId && !getChat(chatId)) {
-      return NextResponse.json({ error: "Чат не найден" }, { status: 404 });
+    let ephemeralHistory: HistoryMessage[] = [];
+    if (ephemeral) {
+      try {
+        ephemeralHistory = parseHistory(body?.history);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Некорректная история чата.";
+        return NextResponse.json({ error: message }, { status: 400 });
+      }
     }
 
     const history = ephemeral
-      ? parseHistory(body?.history)
-      : chatId
-        ? listMessages(chatId)
-            .map((message) => ({
-              role: message.role,
-              text: message.text.trim()
-            }))
-            .filter((message) => message.text.length > 0)
-            .slice(-MAX_HISTORY_MESSAGES)
+      ? ephemeralHistory
+      : chat && parentId
+        ? listBranchMessages(chat.id, parentId)
+            .map(toHistoryMessage)
+            .filter((message) => message.text.length > 0 || message.attachments.length > 0)
         : [];
 
-    const openAiCurrentContent: ContentPart[] = [];
-    const geminiCurrentContent: GeminiPart[] = [];
+    const fileOptions: FileOptions = {
+      fileMode: body?.fileMode === "text" ? "text" : "native",
+      nativeFileTypes: provider.nativeFileTypes
+    };
+    const currentParts: ProviderMessagePart[] = [];
+    const userAttachments: NewAttachment[] = [];
+    let transcript: string | null = null;
+
+    if (audio) {
+      const audioData = Buffer.from(stripDataUrlPrefix(audio.data), "base64");
+      const mimeType = normalizeAudioMimeType(audio.type ?? "");
+      if (!isSupportedAudio(mimeType)) {
+        return NextResponse.json({ error: "Формат записи не поддерживается." }, { status: 400 });
+      }
+      if (audioData.byteLength === 0 || audioData.byteLength > MAX_AUDIO_BYTES) {
+        return NextResponse.json(
+          { error: `Запись пустая или больше ${MAX_AUDIO_BYTES / (1024 * 1024)} MB.` },
+          { status: 400 }
+        );
+      }
 
+      const name = audio.name?.trim() || `voice.${getAudioExtension(mimeType)}`;
+      try {
+        const transcription = await transcribeAudio({ name, mimeType, data: audioData });
+        // Recorded right away: the recording is paid for even if generation fails later.
+        recordUsage({
+          userId: user.id,
+          space,
+          chatId: chat?.id ?? null,
+          messageId: null,
+          kind: "transcription",
+          provider: transcription.engine,
+          model: transcription.model,
+          ...transcription.usage,
+          cost: transcription.cost
+        });
+        transcript = transcription.text;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Не удалось распознать речь.";
+        return NextResponse.json({ error: message }, { status: 502 });
+      }
+      if (!transcript) {
+        return NextResponse.json(
+          { error: "В записи не удалось распознать речь." },
+          { status: 400 }
+        );
+      }
+
+      userAttachments.push({ kind: "audio", name, mimeType, data: audioData, transcript });
+    }
+
+    const text = [typedText, transcript].filter(Boolean).join("\n\n");
     if (text) {
-      openAiCurrentContent.push({ type: "input_text", text });
-      geminiCurrentContent.push({ text });
+      currentParts.push({ type: "text", text });
     }
 
     for (const image of images) {
@@ -284,19 +760,28 @@ export async function POST(req: Request) {
         );
       }
 
-      openAiCurrentContent.push({ type: "input_image", image_url: image });
-      geminiCurrentContent.push({
-        inline_data: {
-          mime_type: imagePayload.mimeType,
-          data: imagePayload.data
-        }
+      const imageExtension = imagePayload.mimeType.split("/")[1]?.split("+")[0] || "png";
+      userAttachments.push({
+        kind: "image",
+        name: `image-${userAttachments.length + 1}.${imageExtension}`,
+        mimeType: imagePayload.mimeType,
+        data: Buffer.from(imagePayload.data, "base64")
+      });
+
+      currentParts.push({
+        type: "image",
+        mimeType: imagePayload.mimeType,
+        data: imagePayload.data
       });
     }
 
     for (const file of files) {
       const fileName = file.name || "document";
       const normalized = stripDataUrlPrefix(file.data);
-      const mimeType = getFileMimeType(file);
+      const mimeType = getFileMimeType(
+        fileName,
+        typeof file.type === "string" ? file.type : ""
+      );
       let byteLength = 0;
 
       try {
@@ -317,188 +802,303 @@ export async function POST(req: Request) {
         );
       }
 
-      if (isDocx(mimeType, fileName)) {
-        try {
-          const buffer = Buffer.from(normalized, "base64");
-          const result = await mammoth.extractRawText({ buffer });
-          const docText = result.value?.trim();
-          if (!docText) {
-            return NextResponse.json(
-              { error: `Файл ${fileName} пустой или без текста` },
-              { status: 400 }
-            );
-          }
-
-          const formatted = `Содержимое файла ${fileName}:\n${docText}`;
-          openAiCurrentContent.push({ type: "input_text", text: formatted });
-          geminiCurrentContent.push({ text: formatted });
-        } catch {
-          return NextResponse.json(
-            { error: `Не удалось прочитать файл ${fileName}.` },
-            { status: 400 }
-          );
-        }
-
-        continue;
-      }
-
-      if (isCsv(mimeType, fileName)) {
-        try {
-          const csvText = Buffer.from(normalized, "base64").toString("utf8").trim();
-          if (!csvText) {
-            return NextResponse.json(
-              { error: `Файл ${fileName} пустой.` },
-              { status: 400 }
-            );
-          }
-
-          const formatted = `Содержимое таблицы ${fileName}:\n${csvText}`;
-          openAiCurrentContent.push({ type: "input_text", text: formatted });
-          geminiCurrentContent.push({ text: formatted });
-        } catch {
-          return NextResponse.json(
-            { error: `Не удалось прочитать CSV файл ${fileName}.` },
-            { status: 400 }
-          );
-        }
+      userAttachments.push({
+        kind: "file",
+        name: fileName,
+        mimeType,
+        data: Buffer.from(normalized, "base64")
+      });
 
-        continue;
+      try {
+        currentParts.push(await buildFilePart(fileName, mimeType, normalized, fileOptions));
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : `Не удалось прочитать файл ${fileName}.`;
+        return NextResponse.json({ error: message }, { status: 400 });
       }
+    }
 
-      if (!isSupportedBinaryFile(mimeType, fileName)) {
-        return NextResponse.json(
-          { error: `Файл ${fileName} не поддерживается.` },
-          { status: 400 }
-        );
+    const storedSource = replyTo ?? editOf;
+    if (storedSource) {
+      try {
+        const stored = await loadStoredAttachments(storedSource, fileOptions);
+        currentParts.push(...stored.parts);
+        userAttachments.push(...stored.attachments);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Не удалось прочитать вложения.";
+        return NextResponse.json({ error: message }, { status: 400 });
       }
-
-      openAiCurrentContent.push({
-        type: "input_file",
-        file_data: normalized,
-        filename: fileName
-      });
-
-      geminiCurrentContent.push({
-        inline_data: {
-          mime_type: mimeType,
-          data: normalized
-        }
-      });
     }
 
-    if (openAiCurrentContent.length === 0 || geminiCurrentContent.length === 0) {
+    if (currentParts.length === 0) {
       return NextResponse.json(
         { error: "Нет подходящего содержимого сообщения" },
         { status: 400 }
       );
     }
 
-    const openAiHistory = history.map((message) => ({
-      type: "message" as const,
-      role: message.role,
-      content: [
-        {
-          type: message.role === "assistant" ? "output_text" : "input_text",
-          text: message.text
+    // Providers accept images from the user only, so images generated in the
+    // previous reply go with the new message and can be edited further.
+    const previousReply = history.at(-1);
+    if (previousReply?.role === "assistant") {
+      for (const attachment of previousReply.attachments) {
+        const data = attachment.kind === "image" ? loadHistoryAttachmentData(attachment) : null;
+        if (data) {
+          currentParts.push({ type: "image", mimeType: attachment.mimeType, data });
         }
-      ]
-    }));
-
-    const geminiHistory = history.map((message) => ({
-      role: message.role === "assistant" ? "model" : "user",
-      parts: [{ text: message.text }]
-    }));
-
-    let outputText = "";
-
-    if (provider === "openai") {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        return NextResponse.json(
-          { error: "OPENAI_API_KEY is not configured" },
-          { status: 500 }
-        );
       }
+    }
 
-      const response = await getOpenAiClient(apiKey).responses.create({
-        model: OPENAI_MODEL,
-        input: [
-          ...openAiHistory,
-          { type: "message", role: "user", content: openAiCurrentContent }
-        ] as any
+    const model = generation.model;
+    const usageProvider = provider;
+    const saveUsage = (
+      usage: TokenUsage | null,
+      kind: UsageKind,
+      messageId: string | null
+    ): MessageUsage | null => {
+      if (!usage) return null;
+      const entry = {
+        provider: usageProvider.id,
+        model,
+        ...usage,
+        cost: calculateCost(usageProvider.id, model, usage)
+      };
+      recordUsage({
+        userId: user.id,
+        space,
+        chatId: chat?.id ?? null,
+        messageId,
+        kind,
+        ...entry
       });
+      return entry;
+    };
+
+    // Excerpts from the space library that match the message go into the instructions.
+    const knowledge =
+      chat && KNOWLEDGE_SPACES.includes(chat.space) && body?.knowledge !== false
+        ? buildKnowledgeContext(
+            await searchKnowledge(
+              user.id,
+              chat.space,
+              text.slice(0, MAX_KNOWLEDGE_QUERY_CHARS),
+              req.signal
+            )
+          )
+        : null;
+    const sources = knowledge?.sources ?? [];
+    const baseInstructions =
+      [generation.instructions, knowledge?.instructions].filter(Boolean).join("\n\n") || null;
+
+    const currentMessage: ProviderMessage = { role: "user", parts: currentParts };
+    const context = await fitHistoryToBudget({
+      provider,
+      model: generation.model,
+      chatId: chat?.id ?? null,
+      history: await buildHistoryMessages(history, fileOptions),
+      budget: getHistoryBudget(provider, {
+        model: generation.model,
+        maxOutputTokens: generation.maxOutputTokens,
+        instructions: baseInstructions,
+        current: currentMessage
+      }),
+      onSummaryUsage: (usage) => saveUsage(usage, "summary", null)
+    });
 
-      outputText = extractOpenAiOutputText(response);
-    } else {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        return NextResponse.json(
-          { error: "GEMINI_API_KEY is not configured" },
-          { status: 500 }
-        );
+    // The rolling summary of dropped turns goes ahead of the remaining history.
+    const instructions = [
+      baseInstructions,
+      context.summary ? `Краткое содержание начала разговора:\n${context.summary}` : null
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const tools = provider.supportsTools ? getSpaceToolList(space) : [];
+    const payload = provider.buildRequest({
+      model: generation.model,
+      temperature: generation.temperature,
+      maxOutputTokens: generation.maxOutputTokens,
+      reasoningEffort: generation.reasoningEffort,
+      instructions: instructions || null,
+      messages: [...context.messages, currentMessage],
+      imageOutput: body?.imageOutput === true,
+      ...(tools.length > 0 ? { tools: toToolDefinitions(tools) } : {})
+    });
+    const meter: UsageMeter = {
+      usage: null,
+      estimatedInputTokens: [...context.messages, currentMessage].reduce(
+        (total, message) => total + estimateMessageTokens(provider, message),
+        estimateTextTokens(provider, instructions)
+      )
+    };
+    // Set once the usage is stored with the reply; otherwise it is stored on its own.
+    let usageSaved = false;
+
+    const persistExchange = ({
+      outputText,
+      usage,
+      images,
+      toolCalls
+    }: GenerationResult): ExchangeResult => {
+      if (ephemeral || !chatId) {
+        return {
+          assistantMessage: { id: crypto.randomUUID(), parentId: null },
+          userMessage: null,
+          usage: saveUsage(usage, "chat", null),
+          images: images.map((image) => `data:${image.mimeType};base64,${image.data}`),
+          toolCalls,
+          sources
+        };
       }
 
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 45000);
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({
-            contents: [
-              ...geminiHistory,
-              {
-                role: "user",
-                parts: geminiCurrentContent
-              }
-            ]
-          }),
-          signal: controller.signal
-        }
-      ).finally(() => clearTimeout(timeout));
-
-      const geminiPayload = await geminiResponse.json().catch(() => ({}));
-
-      if (!geminiResponse.ok) {
-        const apiError =
-          typeof (geminiPayload as { error?: { message?: string } })?.error?.message ===
-          "string"
-            ? (geminiPayload as { error: { message: string } }).error.message
-            : "Gemini API вернул ошибку.";
+      const imageAttachments = images.map(
+        (image, index): NewAttachment => ({
+          kind: "image",
+          name: `generated-${index + 1}.${image.mimeType.split("/")[1] || "png"}`,
+          mimeType: image.mimeType,
+          data: Buffer.from(image.data, "base64")
+        })
+      );
+      const imageUrls = (assistant: StoredMessage) =>
+        assistant.attachments.map(
+          (attachment) => `/api/attachments?id=${encodeURIComponent(attachment.id)}`
+        );
 
-        return NextResponse.json({ error: apiError }, { status: 500 });
+      if (replyTo) {
+        const assistant = addMessage(
+          chatId,
+          "assistant",
+          outputText,
+          imageAttachments,
+          replyTo.id,
+          { toolCalls, sources }
+        );
+        return {
+          assistantMessage: { id: assistant.id, parentId: replyTo.id },
+          userMessage: null,
+          usage: saveUsage(usage, "chat", assistant.id),
+          images: imageUrls(assistant),
+          toolCalls,
+          sources
+        };
       }
 
-      outputText = extractGeminiOutputText(geminiPayload);
-    }
-
-    if (!outputText) {
-      return NextResponse.json(
-        { error: "Модель не вернула текстовый ответ." },
-        { status: 500 }
+      const userMessage = addMessage(chatId, "user", text, userAttachments, parentId);
+      if (text) {
+        updateChatTitleIfDefault(chatId, text);
+      }
+      const assistant = addMessage(
+        chatId,
+        "assistant",
+        outputText,
+        imageAttachments,
+        userMessage.id,
+        { toolCalls, sources }
       );
+      return {
+        assistantMessage: { id: assistant.id, parentId: userMessage.id },
+        userMessage: { id: userMessage.id, parentId },
+        usage: saveUsage(usage, "chat", assistant.id),
+        images: imageUrls(assistant),
+        toolCalls,
+        sources
+      };
+    };
+
+    if (wantsStream) {
+      const streamProvider = provider;
+      const encoder = new TextEncoder();
+      // Aborted when the client disconnects, so the provider stops generating (and billing).
+      const generation = new AbortController();
+      const abort = () => generation.abort();
+      req.signal.addEventListener("abort", abort);
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let closed = false;
+          const send = (event: StreamEvent) => {
+            if (closed || generation.signal.aborted) return;
+            try {
+              controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+            } catch {
+              closed = true;
+              abort();
+            }
+          };
+          const close = () => {
+            if (closed) return;
+            closed = true;
+            try {
+              controller.close();
+            } catch {
+              // Already closed by the client.
+            }
+          };
+
+          try {
+            const result = await generateWithTools(streamProvider, payload, tools, meter, {
+              onDelta: (delta) => send({ type: "delta", text: delta }),
+              onToolCall: (call) => send({ type: "tool", call }),
+              signal: generation.signal
+            });
+
+            if (!result.outputText && result.images.length === 0) {
+              send({ type: "error", error: "Модель не вернула текстовый ответ." });
+            } else {
+              const exchange = persistExchange(result);
+              usageSaved = true;
+              send({
+                type: "done",
+                output: result.outputText,
+                ...exchange,
+                warnings: getQuotaWarnings(user.id, space),
+                transcript
+              });
+            }
+          } catch (error) {
+            send({ type: "error", error: streamProvider.mapError(error) });
+          } finally {
+            if (!usageSaved) saveUsage(meter.usage, "chat", null);
+            req.signal.removeEventListener("abort", abort);
+            close();
+          }
+        },
+        cancel() {
+          abort();
+        }
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "application/x-ndjson; charset=utf-8",
+          "Cache-Control": "no-store",
+          "X-Accel-Buffering": "no"
+        }
+      });
     }
 
-    let assistantMessageId: string = crypto.randomUUID();
+    try {
+      const result = await generateWithTools(provider, payload, tools, meter, null);
 
-    if (!ephemeral && chatId) {
-      addMessage(chatId, "user", text);
-      if (text) {
-        updateChatTitleIfDefault(chatId, text);
+      if (!result.outputText && result.images.length === 0) {
+        return NextResponse.json(
+          { error: "Модель не вернула текстовый ответ." },
+          { status: 500 }
+        );
       }
-      const assistantMessage = addMessage(chatId, "assistant", outputText);
-      assistantMessageId = assistantMessage.id;
-    }
 
-    return NextResponse.json({
-      output: outputText,
-      assistantMessage: { id: assistantMessageId }
-    });
+      const exchange = persistExchange(result);
+      usageSaved = true;
+      return NextResponse.json({
+        output: result.outputText,
+        ...exchange,
+        warnings: getQuotaWarnings(user.id, space),
+        transcript
+      });
+    } finally {
+      if (!usageSaved) saveUsage(meter.usage, "chat", null);
+    }
   } catch (error) {
-    const message = mapProviderError(provider, error);
+    const message = provider.mapError(error);
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,64 @@
+import JSZip from "jszip";
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  buildChatExport,
+  getExportFileName,
+  getExportMimeType,
+  parseExportFormat
+} from "@/lib/chat-export";
+import { getUserChat, listBranchMessages, listChats } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function attachmentHeaders(fileName: string, mimeType: string) {
+  return {
+    "Content-Type": mimeType,
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    "Cache-Control": "no-store"
+  };
+}
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json({ error: "format must be md, json or html" }, { status: 400 });
+  }
+
+  const chatId = searchParams.get("id");
+  if (chatId) {
+    const chat = getUserChat(user.id, chatId);
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const messages = listBranchMessages(chat.id, chat.currentLeafId);
+    const body = buildChatExport(chat, messages, format);
+    return new Response(body, {
+      headers: attachmentHeaders(getExportFileName(chat, format), getExportMimeType(format))
+    });
+  }
+
+  const space = Number(searchParams.get("space") ?? "");
+  if (![1, 2, 3].includes(space)) {
+    return NextResponse.json({ error: "id or space is required" }, { status: 400 });
+  }
+
+  const zip = new JSZip();
+  for (const chat of listChats(user.id, space)) {
+    const messages = listBranchMessages(chat.id, chat.currentLeafId);
+    zip.file(getExportFileName(chat, format), buildChatExport(chat, messages, format));
+  }
+
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return new Response(new Uint8Array(archive), {
+    headers: attachmentHeaders(`space-${space}-${format}.zip`, "application/zip")
+  });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { ImportFormatError, parseImportFile } from "@/lib/chat-import";
+import { hasImportedChat, importChat } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_IMPORT_SIZE_MB = 100;
+
+type SkippedConversation = {
+  title: string;
+  reason: "duplicate" | "empty";
+};
+
+export async function POST(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  const space = Number(form?.get("space") ?? 1);
+
+  if (![1, 2, 3].includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Файл для импорта не передан." }, { status: 400 });
+  }
+
+  if (file.size > MAX_IMPORT_SIZE_MB * 1024 * 1024) {
+    return NextResponse.json(
+      { error: `Файл слишком большой. Максимум ${MAX_IMPORT_SIZE_MB} МБ.` },
+      { status: 413 }
+    );
+  }
+
+  let conversations;
+  try {
+    conversations = await parseImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const imported: Array<{ id: string; title: string }> = [];
+  const skipped: SkippedConversation[] = [];
+
+  for (const conversation of conversations) {
+    if (conversation.messages.length === 0) {
+      skipped.push({ title: conversation.title, reason: "empty" });
+      continue;
+    }
+
+    const importSource = `${conversation.source}:${conversation.sourceId}`;
+    const originalChatId = conversation.source === "native" ? conversation.sourceId : undefined;
+    if (hasImportedChat(user.id, importSource, originalChatId)) {
+      skipped.push({ title: conversation.title, reason: "duplicate" });
+      continue;
+    }
+
+    const chat = importChat(user.id, space, { ...conversation, importSource });
+    imported.push({ id: chat.id, title: chat.title });
+  }
+
+  return NextResponse.json(
+    { imported, skipped },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
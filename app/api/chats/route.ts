@@ -1,15 +1,31 @@
 import { NextResponse } from "next/server";
-import { createChat, deleteChat, getChat, listChats, listMessages } from "@/lib/db";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  createChat,
+  deleteChat,
+  getDefaultPromptPreset,
+  getUserChat,
+  listChats,
+  listMessages,
+  setCurrentLeaf,
+  updateChatSettings
+} from "@/lib/db";
+import { parseChatSettings } from "@/lib/providers";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
   const { searchParams } = new URL(req.url);
   const chatId = searchParams.get("id");
 
   if (chatId) {
-    const chat = getChat(chatId);
+    const chat = getUserChat(user.id, chatId);
     if (!chat) {
       return NextResponse.json(
         { error: "Chat not found" },
@@ -28,7 +44,7 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Invalid space" }, { status: 400 });
   }
 
-  const chats = listChats(space);
+  const chats = listChats(user.id, space);
   return NextResponse.json(
     { chats },
     { headers: { "Cache-Control": "no-store" } }
@@ -36,6 +52,11 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
   const body = await req.json();
   const space = Number(body?.space ?? 1);
   const title = typeof body?.title === "string" ? body.title : "Новый чат";
@@ -44,7 +65,65 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Invalid space" }, { status: 400 });
   }
 
-  const chat = createChat(space, title);
+  const parsedSettings = parseChatSettings(body?.settings);
+  if (parsedSettings.error !== undefined) {
+    return NextResponse.json({ error: parsedSettings.error }, { status: 400 });
+  }
+
+  const settings = parsedSettings.settings;
+  if (!settings.systemPrompt) {
+    settings.systemPrompt = getDefaultPromptPreset(user.id, space)?.prompt ?? null;
+  }
+
+  const chat = createChat(user.id, space, title, settings);
+  return NextResponse.json(
+    { chat },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function PATCH(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const chatId = typeof body?.chatId === "string" ? body.chatId : null;
+
+  if (!chatId) {
+    return NextResponse.json({ error: "chatId is required" }, { status: 400 });
+  }
+
+  const existing = getUserChat(user.id, chatId);
+  if (!existing) {
+    return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+  }
+
+  if (typeof body?.currentLeafId === "string") {
+    if (!setCurrentLeaf(chatId, body.currentLeafId)) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    if (body?.settings === undefined) {
+      return NextResponse.json(
+        { chat: { ...existing, currentLeafId: body.currentLeafId } },
+        { headers: { "Cache-Control": "no-store" } }
+      );
+    }
+  }
+
+  // Without `settings` there is nothing to update; parsing `undefined` would
+  // reset every setting to the provider defaults.
+  if (!body?.settings || typeof body.settings !== "object") {
+    return NextResponse.json({ error: "settings is required" }, { status: 400 });
+  }
+
+  const parsedSettings = parseChatSettings(body.settings);
+  if (parsedSettings.error !== undefined) {
+    return NextResponse.json({ error: parsedSettings.error }, { status: 400 });
+  }
+
+  const chat = updateChatSettings(chatId, parsedSettings.settings);
   return NextResponse.json(
     { chat },
     { headers: { "Cache-Control": "no-store" } }
@@ -52,6 +131,11 @@ export async function POST(req: Request) {
 }
 
 export async function DELETE(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
   const body = await req.json().catch(() => ({}));
   const url = new URL(req.url);
   const chatId =
@@ -63,8 +147,7 @@ export async function DELETE(req: Request) {
     return NextResponse.json({ error: "chatId is required" }, { status: 400 });
   }
 
-  const removed = deleteChat(chatId);
-  if (!removed) {
+  if (!getUserChat(user.id, chatId) || !deleteChat(chatId)) {
     return NextResponse.json({ error: "Chat not found" }, { status: 404 });
   }
 
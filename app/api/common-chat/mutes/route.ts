@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { forbiddenResponse, getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  getUserById,
+  listCommonChatMutes,
+  muteCommonChatUser,
+  unmuteCommonChatUser,
+  type AuthUser
+} from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_MUTE_MINUTES = 60 * 24 * 365;
+
+function requireAdmin(req: Request): AuthUser | NextResponse {
+  const user = getRequestUser(req);
+  if (!user) return unauthorizedResponse();
+  if (user.role !== "admin") return forbiddenResponse();
+  return user;
+}
+
+export async function GET(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  return NextResponse.json(
+    { mutes: listCommonChatMutes() },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/** `{userId, minutes}` mutes for that long; without `minutes` until lifted. */
+export async function POST(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  const body = await req.json().catch(() => ({}));
+  const target = typeof body?.userId === "string" ? getUserById(body.userId) : null;
+  if (!target) {
+    return NextResponse.json({ error: "Пользователь не найден." }, { status: 404 });
+  }
+
+  if (target.id === admin.id) {
+    return NextResponse.json({ error: "Нельзя ограничить самого себя." }, { status: 400 });
+  }
+
+  let mutedUntil: string | null = null;
+  if (body?.minutes !== undefined && body?.minutes !== null) {
+    const minutes = Number(body.minutes);
+    if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_MUTE_MINUTES) {
+      return NextResponse.json(
+        { error: "Укажите срок в минутах, не больше года." },
+        { status: 400 }
+      );
+    }
+    mutedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+  }
+
+  const mute = muteCommonChatUser(target.id, admin.id, mutedUntil);
+  return NextResponse.json({ mute }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function DELETE(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  const userId = new URL(req.url).searchParams.get("id");
+  if (!userId || !unmuteCommonChatUser(userId)) {
+    return NextResponse.json({ error: "Ограничение не найдено." }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
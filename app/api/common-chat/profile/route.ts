@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  COMMON_CHAT_COLORS,
+  DISPLAY_NAME_MAX_LENGTH,
+  DISPLAY_NAME_MIN_LENGTH,
+  getDisplayNameKey,
+  normalizeDisplayName
+} from "@/lib/common-chat";
+import { listCommonChatBotLabels } from "@/lib/common-chat-bots";
+import { getCommonChatProfile, listOtherParticipantNames, saveCommonChatProfile } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json(
+    { profile: getCommonChatProfile(user), colors: COMMON_CHAT_COLORS },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function PATCH(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const current = getCommonChatProfile(user);
+  const displayName =
+    typeof body?.displayName === "string"
+      ? normalizeDisplayName(body.displayName)
+      : current.displayName;
+  const color = typeof body?.color === "string" ? body.color.toLowerCase() : current.color;
+
+  if (
+    displayName.length < DISPLAY_NAME_MIN_LENGTH ||
+    displayName.length > DISPLAY_NAME_MAX_LENGTH
+  ) {
+    return NextResponse.json(
+      {
+        error: `Имя: от ${DISPLAY_NAME_MIN_LENGTH} до ${DISPLAY_NAME_MAX_LENGTH} символов.`
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!COMMON_CHAT_COLORS.includes(color)) {
+    return NextResponse.json({ error: "Выберите цвет из списка." }, { status: 400 });
+  }
+
+  // Another participant's name or login would let one user pass for another.
+  const key = getDisplayNameKey(displayName);
+  const takenNames = [...listOtherParticipantNames(user.id), ...listCommonChatBotLabels()];
+  if (takenNames.some((name) => getDisplayNameKey(name) === key)) {
+    return NextResponse.json({ error: "Это имя уже занято." }, { status: 409 });
+  }
+
+  const profile = saveCommonChatProfile({ userId: user.id, displayName, color });
+  return NextResponse.json({ profile }, { headers: { "Cache-Control": "no-store" } });
+}
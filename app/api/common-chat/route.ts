@@ -1,41 +1,212 @@
-import { NextResponse } from "next/server";
-import { addCommonChatMessage, listCommonChatMessages } from "@/lib/db";
+import { after, NextResponse } from "next/server";
+import { forbiddenResponse, getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  COMMON_CHAT_EDIT_WINDOW_MS,
+  getCommonChatRetryAfter,
+  isWithinEditWindow
+} from "@/lib/common-chat";
+import {
+  findMentionedBots,
+  getBotQuotaError,
+  listCommonChatBotMentions,
+  replyAsBot
+} from "@/lib/common-chat-bots";
+import {
+  addCommonChatMessage,
+  deleteCommonChatMessage,
+  editCommonChatMessage,
+  getCommonChatMessage,
+  getCommonChatMute,
+  getCommonChatProfile,
+  getCommonChatRevision,
+  listCommonChatMessages,
+  listCommonChatMessagesSince,
+  listCommonChatPostTimes,
+  listPinnedCommonChatMessages,
+  setCommonChatMessagePinned,
+  type AuthUser
+} from "@/lib/db";
+import { formatRetryAfter } from "@/lib/login-throttle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+const MAX_MESSAGE_LENGTH = 1000;
+
+function validateText(text: string) {
+  if (!text) {
+    return "text is required";
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return `Сообщение слишком длинное. Максимум ${MAX_MESSAGE_LENGTH} символов.`;
+  }
+  return null;
+}
+
+function mutedResponse(user: AuthUser) {
+  const mute = getCommonChatMute(user.id);
+  if (!mute) return null;
+
+  const until = mute.mutedUntil
+    ? ` Ограничение снимется через ${formatRetryAfter(
+        Math.max(1, Math.ceil((Date.parse(mute.mutedUntil) - Date.now()) / 1000))
+      )}`
+    : "";
+  return NextResponse.json(
+    { error: `Администратор запретил вам писать в общий чат.${until}`, mutedUntil: mute.mutedUntil },
+    { status: 403 }
+  );
+}
+
 export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
   const { searchParams } = new URL(req.url);
   const rawLimit = Number(searchParams.get("limit") ?? "80");
   const limit = Number.isFinite(rawLimit) ? rawLimit : 80;
+  const since = Number(searchParams.get("since"));
 
-  const messages = listCommonChatMessages(limit);
+  // Read the revision first: a message added in between is then sent twice
+  // (here and by the stream), never lost. Clients drop duplicates by id.
+  const revision = getCommonChatRevision();
+  const messages =
+    searchParams.has("since") && Number.isInteger(since) && since >= 0
+      ? listCommonChatMessagesSince(since, limit)
+      : listCommonChatMessages(limit);
   return NextResponse.json(
-    { messages },
+    {
+      messages,
+      revision,
+      pinned: listPinnedCommonChatMessages(),
+      profile: getCommonChatProfile(user),
+      editWindowMs: COMMON_CHAT_EDIT_WINDOW_MS,
+      bots: listCommonChatBotMentions()
+    },
     { headers: { "Cache-Control": "no-store" } }
   );
 }
 
 export async function POST(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  // The author is always the session user; a `senderId` in the body is ignored.
   const body = await req.json().catch(() => ({}));
-  const senderId = typeof body?.senderId === "string" ? body.senderId.trim() : "";
   const text = typeof body?.text === "string" ? body.text.trim() : "";
 
-  if (!senderId) {
-    return NextResponse.json({ error: "senderId is required" }, { status: 400 });
+  const textError = validateText(text);
+  if (textError) {
+    return NextResponse.json({ error: textError }, { status: 400 });
   }
 
-  if (!text) {
-    return NextResponse.json({ error: "text is required" }, { status: 400 });
+  const muted = mutedResponse(user);
+  if (muted) return muted;
+
+  const since = new Date(Date.now() - 60 * 1000).toISOString();
+  const retryAfter = getCommonChatRetryAfter(listCommonChatPostTimes(user.id, since));
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      {
+        error: `Слишком много сообщений подряд. Повторите через ${formatRetryAfter(retryAfter)}`,
+        retryAfter
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
   }
 
-  if (text.length > 1000) {
+  const message = addCommonChatMessage(user.id, text);
+
+  // `@gpt`-style mentions are answered after the response; the reply reaches
+  // everyone through the stream.
+  const bots = findMentionedBots(text);
+  const botError = bots.length ? getBotQuotaError(user) : null;
+  if (bots.length && !botError) {
+    after(() => Promise.all(bots.map((bot) => replyAsBot(bot, user, message))));
+  }
+
+  return NextResponse.json(
+    { message, ...(botError ? { warnings: [botError] } : {}) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/** `{text}` edits an own message within the edit window, `{pinned}` is for admins. */
+export async function PATCH(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const id = new URL(req.url).searchParams.get("id");
+  const message = id ? getCommonChatMessage(id) : null;
+  if (!message || message.deletedAt) {
+    return NextResponse.json({ error: "Сообщение не найдено." }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  if (typeof body?.pinned === "boolean") {
+    if (user.role !== "admin") {
+      return forbiddenResponse();
+    }
+    const updated = setCommonChatMessagePinned(message.id, body.pinned ? user.id : null);
+    return NextResponse.json({ message: updated }, { headers: { "Cache-Control": "no-store" } });
+  }
+
+  if (message.senderId !== user.id) {
+    return forbiddenResponse();
+  }
+
+  if (!isWithinEditWindow(message.createdAt)) {
     return NextResponse.json(
-      { error: "Сообщение слишком длинное. Максимум 1000 символов." },
-      { status: 400 }
+      { error: "Время на изменение сообщения истекло." },
+      { status: 403 }
     );
   }
 
-  const message = addCommonChatMessage(senderId, text);
-  return NextResponse.json({ message }, { headers: { "Cache-Control": "no-store" } });
+  const muted = mutedResponse(user);
+  if (muted) return muted;
+
+  const text = typeof body?.text === "string" ? body.text.trim() : "";
+  const textError = validateText(text);
+  if (textError) {
+    return NextResponse.json({ error: textError }, { status: 400 });
+  }
+
+  const updated = editCommonChatMessage(message.id, text);
+  return NextResponse.json({ message: updated }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/** Authors can delete within the edit window, admins at any time. */
+export async function DELETE(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const id = new URL(req.url).searchParams.get("id");
+  const message = id ? getCommonChatMessage(id) : null;
+  if (!message || message.deletedAt) {
+    return NextResponse.json({ error: "Сообщение не найдено." }, { status: 404 });
+  }
+
+  if (user.role !== "admin") {
+    if (message.senderId !== user.id) {
+      return forbiddenResponse();
+    }
+    if (!isWithinEditWindow(message.createdAt)) {
+      return NextResponse.json(
+        { error: "Время на удаление сообщения истекло. Обратитесь к администратору." },
+        { status: 403 }
+      );
+    }
+  }
+
+  const updated = deleteCommonChatMessage(message.id, user.id);
+  return NextResponse.json({ message: updated }, { headers: { "Cache-Control": "no-store" } });
 }
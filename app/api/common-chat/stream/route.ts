@@ -0,0 +1,113 @@
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { subscribeCommonChat, type CommonChatEvent } from "@/lib/common-chat-events";
+import { getCommonChatRevision, listCommonChatMessagesSince, type CommonChatMessage } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 25000;
+const RECONNECT_MS = 3000;
+const BACKLOG_BATCH = 300;
+
+function parseRevision(value: string | null) {
+  const revision = Number(value);
+  return value && Number.isInteger(revision) && revision >= 0 ? revision : null;
+}
+
+/**
+ * Server-sent events with every new common chat message (`message`) and
+ * participant profile change (`profile`). The message event id is the
+ * message revision, so a reconnecting EventSource resumes from
+ * `Last-Event-ID`; a fresh one passes the revision of its initial fetch as
+ * `?since=`. Without either the stream starts at the current revision.
+ */
+export async function GET(req: Request) {
+  if (!getRequestUser(req)) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastRevision =
+        parseRevision(req.headers.get("last-event-id")) ??
+        parseRevision(searchParams.get("since")) ??
+        getCommonChatRevision();
+      let closed = false;
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let unsubscribe = () => {};
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        req.signal.removeEventListener("abort", cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      };
+      req.signal.addEventListener("abort", cleanup);
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (message: CommonChatMessage) => {
+        if (message.revision <= lastRevision) return;
+        lastRevision = message.revision;
+        write(`id: ${message.revision}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`);
+      };
+
+      // Profile changes carry no id and are not replayed on resume; names
+      // missed while disconnected are corrected when the panel reloads.
+      const handleEvent = (event: CommonChatEvent) => {
+        if (event.type === "message") {
+          send(event.message);
+        } else {
+          write(`event: profile\ndata: ${JSON.stringify(event.profile)}\n\n`);
+        }
+      };
+
+      // Subscribing and reading the backlog in one synchronous step leaves no
+      // gap for a message to slip between them.
+      unsubscribe = subscribeCommonChat(handleEvent);
+      write(`retry: ${RECONNECT_MS}\n\n`);
+      for (;;) {
+        const backlog = listCommonChatMessagesSince(lastRevision, BACKLOG_BATCH);
+        backlog.forEach(send);
+        if (backlog.length < BACKLOG_BATCH) break;
+      }
+
+      heartbeat = setInterval(() => {
+        if (!getRequestUser(req)) {
+          cleanup();
+          return;
+        }
+        write(": ping\n\n");
+      }, HEARTBEAT_MS);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
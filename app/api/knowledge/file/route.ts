@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { getKnowledgeDocument, readKnowledgeDocumentData } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Original file of a library document; citations link here with `#page=N` for PDFs. */
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const documentId = searchParams.get("id");
+
+  if (!documentId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const document = getKnowledgeDocument(documentId);
+  const data = document?.userId === user.id ? readKnowledgeDocumentData(documentId) : null;
+  if (!document || !data) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  const disposition = searchParams.get("download") === "1" ? "attachment" : "inline";
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": document.mimeType,
+      "Content-Length": String(data.byteLength),
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(document.name)}`,
+      "Cache-Control": "private, max-age=31536000, immutable",
+      // Browsers refuse to show sandboxed PDFs, and PDFs are what citations point into.
+      ...(document.mimeType === "application/pdf" ? {} : { "Content-Security-Policy": "sandbox" }),
+      "X-Content-Type-Options": "nosniff"
+    }
+  });
+}
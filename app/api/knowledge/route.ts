@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { deleteKnowledgeDocument, getKnowledgeDocument, listKnowledgeDocuments } from "@/lib/db";
+import { getFileMimeType } from "@/lib/file-converters";
+import { indexKnowledgeDocument, KNOWLEDGE_SPACES } from "@/lib/knowledge";
+import { checkUsageQuota, formatQuotaExceeded, getQuotaRetryAfter } from "@/lib/quotas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_DOCUMENT_SIZE_MB = 20;
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const space = Number(searchParams.get("space") ?? "1");
+
+  if (!KNOWLEDGE_SPACES.includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    { documents: listKnowledgeDocuments(user.id, space) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/** Multipart form with `file` and `space`, like the chat import. */
+export async function POST(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  const space = Number(form?.get("space") ?? 1);
+
+  if (!KNOWLEDGE_SPACES.includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Файл документа не передан." }, { status: 400 });
+  }
+
+  // Embedding a document is billed like a chat request in the space.
+  const quota = checkUsageQuota(user.id, space);
+  if (quota.exceeded) {
+    const retryAfter = getQuotaRetryAfter(quota.exceeded);
+    return NextResponse.json(
+      { error: formatQuotaExceeded(quota.exceeded), retryAfter },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  const name = file.name.trim().slice(0, 200) || "document";
+  if (file.size === 0) {
+    return NextResponse.json({ error: `Файл ${name} пустой.` }, { status: 400 });
+  }
+  if (file.size > MAX_DOCUMENT_SIZE_MB * 1024 * 1024) {
+    return NextResponse.json(
+      { error: `Файл ${name} слишком большой. Максимум ${MAX_DOCUMENT_SIZE_MB} МБ.` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const document = await indexKnowledgeDocument({
+      space,
+      userId: user.id,
+      name,
+      mimeType: getFileMimeType(name, file.type),
+      data: Buffer.from(await file.arrayBuffer())
+    });
+    return NextResponse.json({ document }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Не удалось добавить документ.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+/** Documents belong to the account that uploaded them, like its chats. */
+export async function DELETE(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const documentId = new URL(req.url).searchParams.get("id");
+  if (!documentId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  if (getKnowledgeDocument(documentId)?.userId !== user.id) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  deleteKnowledgeDocument(documentId);
+  return NextResponse.json({ ok: true });
+}
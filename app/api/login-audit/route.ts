@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { forbiddenResponse, getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { listLoginAudit } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) return unauthorizedResponse();
+  if (user.role !== "admin") return forbiddenResponse();
+
+  const { searchParams } = new URL(req.url);
+  const rawLimit = Number(searchParams.get("limit") ?? "100");
+  const limit = Number.isFinite(rawLimit) ? rawLimit : 100;
+
+  return NextResponse.json(
+    { entries: listLoginAudit(limit) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
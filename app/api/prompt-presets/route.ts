@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  deletePromptPreset,
+  getPromptPreset,
+  listPromptPresets,
+  savePromptPreset
+} from "@/lib/db";
+import { MAX_SYSTEM_PROMPT_LENGTH } from "@/lib/providers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PRESET_SPACES = [1, 2, 3];
+const MAX_TITLE_LENGTH = 80;
+
+function parsePresetFields(body: any) {
+  const title = typeof body?.title === "string" ? body.title.trim() : "";
+  const prompt = typeof body?.prompt === "string" ? body.prompt.trim() : "";
+
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    return { error: `Название пресета должно быть от 1 до ${MAX_TITLE_LENGTH} символов.` };
+  }
+
+  if (!prompt || prompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return {
+      error: `Текст пресета должен быть от 1 до ${MAX_SYSTEM_PROMPT_LENGTH} символов.`
+    };
+  }
+
+  return { title, prompt, isDefault: Boolean(body?.isDefault) };
+}
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const space = Number(searchParams.get("space") ?? "1");
+
+  if (!PRESET_SPACES.includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    { presets: listPromptPresets(user.id, space) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function POST(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const space = Number(body?.space ?? 1);
+
+  if (!PRESET_SPACES.includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  const fields = parsePresetFields(body);
+  if (fields.error !== undefined) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const preset = savePromptPreset({ userId: user.id, space, ...fields });
+  return NextResponse.json({ preset }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function PATCH(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const presetId = typeof body?.id === "string" ? body.id : null;
+
+  if (!presetId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const existing = getPromptPreset(presetId);
+  if (!existing || existing.userId !== user.id) {
+    return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+  }
+
+  const fields = parsePresetFields({
+    title: body?.title ?? existing.title,
+    prompt: body?.prompt ?? existing.prompt,
+    isDefault: body?.isDefault ?? existing.isDefault
+  });
+  if (fields.error !== undefined) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const preset = savePromptPreset({
+    id: presetId,
+    userId: user.id,
+    space: existing.space,
+    ...fields
+  });
+  return NextResponse.json({ preset }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function DELETE(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const url = new URL(req.url);
+  const presetId = typeof body?.id === "string" ? body.id : url.searchParams.get("id");
+
+  if (!presetId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  if (getPromptPreset(presetId)?.userId !== user.id || !deletePromptPreset(presetId)) {
+    return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
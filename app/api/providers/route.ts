@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { DEFAULT_PROVIDER_ID, listProviders } from "@/lib/providers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  if (!getRequestUser(req)) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json(
+    { providers: listProviders(), defaultProvider: DEFAULT_PROVIDER_ID },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import { searchChats } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const query = (searchParams.get("q") ?? "").trim();
+  const space = Number(searchParams.get("space") ?? "1");
+
+  if (![1, 2, 3].includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `Запрос слишком длинный. Максимум ${MAX_QUERY_LENGTH} символов.` },
+      { status: 400 }
+    );
+  }
+
+  const results = query ? searchChats(user.id, space, query) : [];
+  return NextResponse.json({ results }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { forbiddenResponse, getRequestUser, unauthorizedResponse } from "@/lib/auth";
+import {
+  getUsageTotals,
+  listUsageByChat,
+  listUsageBySpace,
+  listUsageByUser,
+  type UsageFilter
+} from "@/lib/db";
+import { checkUsageQuota } from "@/lib/quotas";
+import { getUsagePeriodStart, parseUsagePeriod } from "@/lib/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Token and cost totals for the current user. Admins may pass `scope=all`
+ * to see every account, with a per-user breakdown.
+ */
+export async function GET(req: Request) {
+  const user = getRequestUser(req);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const period = parseUsagePeriod(searchParams.get("period"));
+  if (!period) {
+    return NextResponse.json({ error: "Invalid period" }, { status: 400 });
+  }
+
+  const rawSpace = searchParams.get("space");
+  const space = rawSpace ? Number(rawSpace) : null;
+  if (space !== null && ![1, 2, 3, 4].includes(space)) {
+    return NextResponse.json({ error: "Invalid space" }, { status: 400 });
+  }
+
+  const allUsers = searchParams.get("scope") === "all";
+  if (allUsers && user.role !== "admin") {
+    return forbiddenResponse();
+  }
+
+  const since = getUsagePeriodStart(period);
+  const filter: UsageFilter = { userId: allUsers ? null : user.id, space, since };
+
+  return NextResponse.json(
+    {
+      period,
+      since,
+      totals: getUsageTotals(filter),
+      spaces: listUsageBySpace({ ...filter, space: null }),
+      chats: listUsageByChat(filter),
+      users: allUsers ? listUsageByUser(filter) : [],
+      quotas: space !== null ? checkUsageQuota(user.id, space).statuses : []
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,179 @@
+import { NextResponse } from "next/server";
+import {
+  forbiddenResponse,
+  getRequestSessionId,
+  getRequestUser,
+  hashPassword,
+  hashSessionId,
+  unauthorizedResponse,
+  verifyPassword
+} from "@/lib/auth";
+import {
+  addLoginAuditEntry,
+  createUser,
+  deleteUser,
+  deleteUserSessions,
+  getUserById,
+  getUserCredentials,
+  listUsers,
+  updateUserPassword,
+  type AuthUser
+} from "@/lib/db";
+import {
+  formatRetryAfter,
+  getClientIp,
+  getLoginRetryAfter,
+  registerLoginFailure,
+  registerLoginSuccess
+} from "@/lib/login-throttle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+
+function lockedResponse(retryAfter: number) {
+  return NextResponse.json(
+    {
+      error: `Слишком много неудачных попыток. Повторите через ${formatRetryAfter(retryAfter)}`,
+      retryAfter
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+const MIN_PASSWORD_LENGTH = 8;
+
+function requireAdmin(req: Request): AuthUser | NextResponse {
+  const user = getRequestUser(req);
+  if (!user) return unauthorizedResponse();
+  if (user.role !== "admin") return forbiddenResponse();
+  return user;
+}
+
+function validatePassword(password: unknown) {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов.`;
+  }
+  return null;
+}
+
+export async function GET(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  return NextResponse.json(
+    { users: listUsers(), currentUserId: admin.id },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function POST(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  const body = await req.json().catch(() => ({}));
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  const role = body?.role === "admin" ? "admin" : "member";
+
+  if (!USERNAME_PATTERN.test(username)) {
+    return NextResponse.json(
+      { error: "Логин: 3–32 символа, латиница, цифры, точка, дефис или подчёркивание." },
+      { status: 400 }
+    );
+  }
+
+  const passwordError = validatePassword(body?.password);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  if (getUserCredentials(username)) {
+    return NextResponse.json({ error: "Пользователь уже существует" }, { status: 409 });
+  }
+
+  const user = createUser(username, hashPassword(body.password), role);
+  return NextResponse.json({ user }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/** Admins can reset anyone's password; members can change their own. */
+export async function PATCH(req: Request) {
+  const current = getRequestUser(req);
+  if (!current) return unauthorizedResponse();
+
+  const body = await req.json().catch(() => ({}));
+  const userId = typeof body?.id === "string" ? body.id : current.id;
+
+  if (userId !== current.id && current.role !== "admin") {
+    return forbiddenResponse();
+  }
+
+  if (!getUserById(userId)) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const passwordError = validatePassword(body?.password);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  // A hijacked session alone must not be enough to take the account over, and
+  // the check shares the login throttle so it cannot be used to guess the password.
+  if (userId === current.id) {
+    const attempt = {
+      username: current.username,
+      ip: getClientIp(req),
+      userAgent: req.headers.get("user-agent")
+    };
+    const lockedFor = getLoginRetryAfter(attempt.username, attempt.ip);
+    if (lockedFor > 0) {
+      addLoginAuditEntry({ ...attempt, reason: "locked" });
+      return lockedResponse(lockedFor);
+    }
+
+    const credentials = getUserCredentials(current.username);
+    const currentPassword = typeof body?.currentPassword === "string" ? body.currentPassword : "";
+    if (
+      !credentials ||
+      !currentPassword ||
+      !verifyPassword(currentPassword, credentials.passwordHash)
+    ) {
+      const retryAfter = registerLoginFailure({ ...attempt, reason: "bad_current_password" });
+      if (retryAfter > 0) {
+        return lockedResponse(retryAfter);
+      }
+      return NextResponse.json({ error: "Неверный текущий пароль." }, { status: 403 });
+    }
+    registerLoginSuccess(attempt.username);
+  }
+
+  updateUserPassword(userId, hashPassword(body.password));
+
+  const sessionId = getRequestSessionId(req);
+  const keepSession = userId === current.id && sessionId ? hashSessionId(sessionId) : undefined;
+  deleteUserSessions(userId, keepSession);
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(req: Request) {
+  const admin = requireAdmin(req);
+  if (admin instanceof NextResponse) return admin;
+
+  const body = await req.json().catch(() => ({}));
+  const url = new URL(req.url);
+  const userId = typeof body?.id === "string" ? body.id : url.searchParams.get("id");
+
+  if (!userId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  if (userId === admin.id) {
+    return NextResponse.json({ error: "Нельзя удалить собственную учётную запись" }, { status: 400 });
+  }
+
+  if (!deleteUser(userId)) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -1,20 +1,40 @@
 "use client";
 
-import { FormEvent, Suspense, useState } from "react";
+import { FormEvent, Suspense, useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 
 function AuthPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const isLocked = lockedUntil !== null && lockedUntil > now;
+
+  useEffect(() => {
+    if (lockedUntil === null) return;
+
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
 
   const nextPath = searchParams.get("next") || "/";
 
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
-    if (!password) return;
+    if (!username.trim() || !password || isLocked) return;
 
     setIsSubmitting(true);
     setError(null);
@@ -23,10 +43,15 @@ function AuthPageContent() {
       const response = await fetch("/api/auth", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password })
+        body: JSON.stringify({ username: username.trim(), password })
       });
 
       const payload = await response.json().catch(() => ({}));
+      if (response.status === 429 && typeof payload?.retryAfter === "number") {
+        const current = Date.now();
+        setNow(current);
+        setLockedUntil(current + payload.retryAfter * 1000);
+      }
       if (!response.ok) {
         throw new Error(payload?.error || "Ошибка авторизации");
       }
@@ -45,18 +70,33 @@ function AuthPageContent() {
     <main className="auth-page">
       <div className="auth-card">
         <h1>Вход в Neurocube GPT</h1>
-        <p>Введите пароль для доступа к сайту.</p>
+        <p>Введите логин и пароль для доступа к сайту.</p>
 
         <form onSubmit={handleSubmit} className="auth-form">
+          <input
+            type="text"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            placeholder="Логин"
+            autoComplete="username"
+            autoFocus
+          />
           <input
             type="password"
             value={password}
             onChange={(event) => setPassword(event.target.value)}
             placeholder="Пароль"
-            autoFocus
+            autoComplete="current-password"
           />
-          <button type="submit" disabled={isSubmitting || !password}>
-            {isSubmitting ? "Проверка..." : "Войти"}
+          <button
+            type="submit"
+            disabled={isSubmitting || isLocked || !username.trim() || !password}
+          >
+            {isSubmitting
+              ? "Проверка..."
+              : isLocked
+                ? `Вход заблокирован (${Math.ceil((lockedUntil - now) / 1000)} сек.)`
+                : "Войти"}
           </button>
         </form>
 
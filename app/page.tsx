@@ -6,10 +6,108 @@ import remarkGfm from "remark-gfm";
 
 type Message = {
   id: string;
+  parentId?: string | null;
   role: "user" | "assistant";
   text: string;
   images?: string[];
-  files?: { name: string; type: string }[];
+  files?: { name: string; type: string; url?: string; data?: string }[];
+  /** Voice recording URL; its transcript is part of `text`. */
+  audio?: string;
+  usage?: MessageUsage | null;
+  toolCalls?: ToolCallRecord[];
+  sources?: KnowledgeSource[];
+};
+
+type KnowledgeSource = {
+  index: number;
+  documentId: string;
+  name: string;
+  page: number | null;
+};
+
+type KnowledgeDocument = {
+  id: string;
+  userId: string;
+  name: string;
+  chunkCount: number;
+  createdAt: string;
+};
+
+type ToolCallRecord = {
+  name: string;
+  label: string;
+  arguments: Record<string, unknown>;
+  output: string;
+  isError: boolean;
+};
+
+type MessageUsage = {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number | null;
+};
+
+type UsageTotals = {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number;
+  requests: number;
+  unpricedRequests: number;
+};
+
+type QuotaStatus = {
+  scope: "space" | "user";
+  period: "day" | "month";
+  metric: "tokens" | "cost";
+  used: number;
+  limit: number;
+};
+
+type UsageReport = {
+  totals: UsageTotals;
+  spaces: Array<UsageTotals & { space: number }>;
+  chats: Array<UsageTotals & { chatId: string; title: string | null }>;
+  quotas: QuotaStatus[];
+};
+
+type StoredAttachment = {
+  id: string;
+  kind: "image" | "file" | "audio";
+  name: string;
+  mimeType: string;
+  size: number;
+};
+
+type StoredMessage = {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  text: string;
+  attachments?: StoredAttachment[];
+  usage?: MessageUsage | null;
+  toolCalls?: ToolCallRecord[];
+  sources?: KnowledgeSource[];
+};
+
+type ChatSettings = {
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  reasoningEffort: string | null;
+  systemPrompt: string | null;
+};
+
+type PromptPreset = {
+  id: string;
+  space: number;
+  title: string;
+  prompt: string;
+  isDefault: boolean;
 };
 
 type ChatSummary = {
@@ -17,6 +115,8 @@ type ChatSummary = {
   title: string;
   updatedAt: string;
   space: number;
+  settings?: ChatSettings;
+  currentLeafId?: string | null;
 };
 
 type PendingFile = {
@@ -26,35 +126,117 @@ type PendingFile = {
   size: number;
 };
 
-type Provider = "openai" | "gemini";
+type PendingAudio = {
+  name: string;
+  type: string;
+  /** Data URL, used both for playback and as the upload. */
+  url: string;
+};
+
+type ProviderInfo = {
+  id: string;
+  label: string;
+  model: string;
+  models: string[];
+  temperatureModels: string[];
+  reasoningEffortModels: string[];
+  nativeFileTypes: string[];
+  imageOutputModels: string[];
+};
+
+type FileFormat = {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+};
+
+type SavedMessageRef = { id: string; parentId: string | null };
+
+type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool"; call: ToolCallRecord }
+  | {
+      type: "done";
+      output: string;
+      assistantMessage: SavedMessageRef;
+      userMessage: SavedMessageRef | null;
+      usage: MessageUsage | null;
+      warnings?: string[];
+      transcript?: string | null;
+      images?: string[];
+      toolCalls?: ToolCallRecord[];
+      sources?: KnowledgeSource[];
+    }
+  | { type: "error"; error: string };
+
+type SearchResult = {
+  kind: "chat" | "message";
+  chatId: string;
+  chatTitle: string;
+  messageId: string | null;
+  role: "user" | "assistant" | null;
+  snippet: Array<{ text: string; match: boolean }>;
+  createdAt: string;
+};
+
+type CurrentUser = {
+  id: string;
+  username: string;
+  role: "admin" | "member";
+};
+
+type CommonChatProfile = {
+  userId: string;
+  displayName: string;
+  color: string;
+};
 
 type CommonChatMessage = {
   id: string;
   senderId: string;
+  senderName: string;
+  senderColor: string;
+  isBot: boolean;
   text: string;
+  revision: number;
   createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  deletedBy: "author" | "moderator" | null;
+  pinnedAt: string | null;
+};
+
+type CommonChatMute = {
+  userId: string;
+  displayName: string;
+  mutedUntil: string | null;
 };
 
 const MAX_IMAGES = 6;
 const MAX_FILES = 5;
 const MAX_FILE_SIZE_MB = 20;
+const MAX_AUDIO_SIZE_MB = 25;
 const COMMON_CHAT_LIMIT = 80;
 const SPACE_VALUES = [1, 2, 3, 4] as const;
-const PROVIDER_META: Record<Provider, { label: string; model: string }> = {
-  openai: { label: "OpenAI", model: "gpt-5.2" },
-  gemini: { label: "Gemini", model: "gemini-2.5-flash" }
+const REASONING_EFFORT_LABELS: Record<string, string> = {
+  low: "Низкий",
+  medium: "Средний",
+  high: "Высокий"
+};
+const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  provider: null,
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  reasoningEffort: null,
+  systemPrompt: null
 };
 
-const DOC_FILE_TYPES = new Set([
-  "application/pdf",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  "application/vnd.ms-excel",
-  "text/csv"
-]);
-
-const DOC_FILE_EXTENSIONS = [".pdf", ".docx", ".xlsx", ".xls", ".csv"];
-const COMMON_CHAT_SENDER_KEY = "neurocube-common-chat-sender-id";
+const EXPORT_FORMATS = [
+  { value: "md", label: "Markdown" },
+  { value: "json", label: "JSON" },
+  { value: "html", label: "HTML" }
+] as const;
 
 function generateId() {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
@@ -70,36 +252,186 @@ function normalizeTitle(text: string) {
   return `${cleaned.slice(0, 57)}...`;
 }
 
-function isSupportedDataFile(file: File) {
+function getAttachmentUrl(attachmentId: string, download = false) {
+  const url = `/api/attachments?id=${encodeURIComponent(attachmentId)}`;
+  return download ? `${url}&download=1` : url;
+}
+
+/** PDF viewers open `#page=N` at that page; other formats ignore the fragment. */
+function getKnowledgeSourceUrl(source: KnowledgeSource) {
+  const url = `/api/knowledge/file?id=${encodeURIComponent(source.documentId)}`;
+  return source.page ? `${url}#page=${source.page}` : url;
+}
+
+/** Stored attachments download with their file name; data URLs download as they are. */
+function getImageDownloadUrl(image: string) {
+  return image.startsWith("/api/attachments?") ? `${image}&download=1` : image;
+}
+
+function toClientMessage(message: StoredMessage): Message {
+  const attachments = message.attachments ?? [];
+  const images = attachments
+    .filter((attachment) => attachment.kind === "image")
+    .map((attachment) => getAttachmentUrl(attachment.id));
+  const files = attachments
+    .filter((attachment) => attachment.kind === "file")
+    .map((attachment) => ({
+      name: attachment.name,
+      type: attachment.mimeType,
+      url: getAttachmentUrl(attachment.id, true)
+    }));
+  const audio = attachments.find((attachment) => attachment.kind === "audio");
+
+  return {
+    id: message.id,
+    parentId: message.parentId,
+    role: message.role,
+    text: message.text,
+    images: images.length ? images : undefined,
+    files: files.length ? files : undefined,
+    audio: audio ? getAttachmentUrl(audio.id) : undefined,
+    usage: message.usage ?? null,
+    toolCalls: message.toolCalls?.length ? message.toolCalls : undefined,
+    sources: message.sources?.length ? message.sources : undefined
+  };
+}
+
+function formatTokens(value: number) {
+  return value.toLocaleString("ru-RU");
+}
+
+function formatCost(value: number) {
+  return `$${value > 0 && value < 0.01 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
+function describeQuota(quota: QuotaStatus) {
+  const owner = quota.scope === "space" ? "Раздел" : "Вы";
+  const period = quota.period === "day" ? "день" : "месяц";
+  const amount =
+    quota.metric === "cost"
+      ? `${formatCost(quota.used)} / ${formatCost(quota.limit)}`
+      : `${formatTokens(quota.used)} / ${formatTokens(quota.limit)}`;
+  return `${owner}, ${period}: ${amount}`;
+}
+
+function describeUsage(usage: MessageUsage) {
+  const cost = usage.cost === null ? "цена неизвестна" : formatCost(usage.cost);
+  return `${formatTokens(usage.inputTokens)} → ${formatTokens(usage.outputTokens)} токенов · ${cost}`;
+}
+
+/** Messages from the root down to leafId (or the newest message). */
+function getBranchPath(list: Message[], leafId: string | null) {
+  const byId = new Map(list.map((message) => [message.id, message]));
+  const path: Message[] = [];
+  let current: Message | undefined =
+    (leafId ? byId.get(leafId) : undefined) ?? list[list.length - 1];
+
+  while (current && path.length <= list.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/** Follows the newest child at every step, which is where a branch was last used. */
+function getLatestLeaf(list: Message[], messageId: string) {
+  let leafId = messageId;
+  for (;;) {
+    const children = list.filter((message) => message.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+function getSiblings(list: Message[], message: Message) {
+  return list.filter((item) => (item.parentId ?? null) === (message.parentId ?? null));
+}
+
+function parseOptionalNumber(value: string) {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isSupportedDataFile(file: File, formats: FileFormat[]) {
   const lowerName = file.name.toLowerCase();
-  return (
-    DOC_FILE_TYPES.has(file.type) ||
-    DOC_FILE_EXTENSIONS.some((extension) => lowerName.endsWith(extension))
+  return formats.some(
+    (format) =>
+      format.mimeTypes.includes(file.type) ||
+      format.extensions.some((extension) => lowerName.endsWith(extension))
   );
 }
 
-function getOrCreateCommonChatSenderId() {
-  if (typeof window === "undefined") {
-    return generateId();
+async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+) {
+  if (!response.body) {
+    throw new Error("Ответ сервера пустой.");
   }
 
-  const existing = window.localStorage.getItem(COMMON_CHAT_SENDER_KEY);
-  if (existing) {
-    return existing;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    onEvent(JSON.parse(trimmed) as ChatStreamEvent);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
   }
 
-  const next = generateId();
-  window.localStorage.setItem(COMMON_CHAT_SENDER_KEY, next);
-  return next;
+  buffer += decoder.decode();
+  handleLine(buffer);
+}
+
+function getInitials(name: string) {
+  const words: string[] = name.match(/[\p{L}\p{N}]+/gu) ?? ["?"];
+  const letters =
+    words.length > 1 ? [words[0][0], words[1][0]] : Array.from(words[0]).slice(0, 2);
+  return letters.join("").toUpperCase();
 }
 
 export default function Home() {
   const [space, setSpace] = useState<1 | 2 | 3 | 4>(1);
-  const [provider, setProvider] = useState<Provider>("openai");
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [fileFormats, setFileFormats] = useState<FileFormat[]>([]);
+  const [settings, setSettings] = useState<ChatSettings>(DEFAULT_CHAT_SETTINGS);
+  const [settingsDirty, setSettingsDirty] = useState(false);
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [isPromptPanelOpen, setIsPromptPanelOpen] = useState(false);
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [exportMenuChatId, setExportMenuChatId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [usageReport, setUsageReport] = useState<UsageReport | null>(null);
+  const [usageWarnings, setUsageWarnings] = useState<string[]>([]);
+  const [isKnowledgeOpen, setIsKnowledgeOpen] = useState(false);
+  const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isUploadingKnowledge, setIsUploadingKnowledge] = useState(false);
 
   const [dbChats, setDbChats] = useState<ChatSummary[]>([]);
   const [dbCurrentChatId, setDbCurrentChatId] = useState<string | null>(null);
   const [dbMessages, setDbMessages] = useState<Message[]>([]);
+  const [dbLeafId, setDbLeafId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState("");
 
   const [tempChats, setTempChats] = useState<ChatSummary[]>([]);
   const [tempCurrentChatId, setTempCurrentChatId] = useState<string | null>(null);
@@ -110,7 +442,13 @@ export default function Home() {
   const [input, setInput] = useState("");
   const [pendingImages, setPendingImages] = useState<string[]>([]);
   const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [fileMode, setFileMode] = useState<"native" | "text">("native");
+  const [imageOutput, setImageOutput] = useState(false);
+  const [canTranscribe, setCanTranscribe] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [pendingAudio, setPendingAudio] = useState<PendingAudio | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [isLoadingChats, setIsLoadingChats] = useState(false);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -121,33 +459,134 @@ export default function Home() {
   const [commonChatError, setCommonChatError] = useState<string | null>(null);
   const [isCommonChatLoading, setIsCommonChatLoading] = useState(false);
   const [isCommonChatSending, setIsCommonChatSending] = useState(false);
-  const [commonChatSenderId, setCommonChatSenderId] = useState("");
+  const [commonChatProfile, setCommonChatProfile] = useState<CommonChatProfile | null>(null);
+  const [commonChatPinned, setCommonChatPinned] = useState<CommonChatMessage[]>([]);
+  const [commonChatMutes, setCommonChatMutes] = useState<CommonChatMute[]>([]);
+  const [commonChatEditWindowMs, setCommonChatEditWindowMs] = useState(0);
+  const [commonChatBots, setCommonChatBots] = useState<string[]>([]);
+  const [commonChatColors, setCommonChatColors] = useState<string[]>([]);
+  const [isCommonChatProfileOpen, setIsCommonChatProfileOpen] = useState(false);
+  const [profileNameInput, setProfileNameInput] = useState("");
+  const [profileColorInput, setProfileColorInput] = useState("");
+  const [isProfileSaving, setIsProfileSaving] = useState(false);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const commonBottomRef = useRef<HTMLDivElement | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
 
   const isTempSpace = space === 4;
   const currentChatId = isTempSpace ? tempCurrentChatId : dbCurrentChatId;
   const chats = isTempSpace ? tempChats : dbChats;
 
   const messages = useMemo(() => {
-    if (!isTempSpace) return dbMessages;
+    if (!isTempSpace) return getBranchPath(dbMessages, dbLeafId);
     if (!tempCurrentChatId) return [];
     return tempMessagesByChatId[tempCurrentChatId] || [];
-  }, [dbMessages, isTempSpace, tempCurrentChatId, tempMessagesByChatId]);
+  }, [dbMessages, dbLeafId, isTempSpace, tempCurrentChatId, tempMessagesByChatId]);
+
+  const provider = settings.provider ?? "";
+  const activeProvider = providers.find((item) => item.id === provider) ?? null;
+  const activeModel = activeProvider ? (settings.model ?? activeProvider.model) : "";
+  const supportsImageOutput = Boolean(activeProvider?.imageOutputModels.includes(activeModel));
+
+  const fileFormatLabels = fileFormats.map((format) => format.label).join(", ");
+  const fileAccept = useMemo(
+    () => fileFormats.flatMap((format) => [...format.extensions, ...format.mimeTypes]).join(","),
+    [fileFormats]
+  );
 
   const canSend = useMemo(() => {
     return (
       !isLoading &&
-      (input.trim().length > 0 || pendingImages.length > 0 || pendingFiles.length > 0)
+      !isRecording &&
+      Boolean(provider) &&
+      (input.trim().length > 0 ||
+        pendingImages.length > 0 ||
+        pendingFiles.length > 0 ||
+        Boolean(pendingAudio))
     );
-  }, [isLoading, input, pendingImages.length, pendingFiles.length]);
+  }, [
+    isLoading,
+    isRecording,
+    provider,
+    input,
+    pendingImages.length,
+    pendingFiles.length,
+    pendingAudio
+  ]);
 
   useEffect(() => {
+    if (highlightedMessageId) return;
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [messages, isLoading]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const element = document.getElementById(`message-${highlightedMessageId}`);
+    if (!element) {
+      // The match may sit on a branch that is not selected yet.
+      if (!isTempSpace && dbMessages.some((message) => message.id === highlightedMessageId)) {
+        setDbLeafId(getLatestLeaf(dbMessages, highlightedMessageId));
+      }
+      return;
+    }
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightedMessageId, messages]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || space === 4) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search?space=${space}&q=${encodeURIComponent(query)}`,
+          { cache: "no-store", signal: controller.signal }
+        );
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.error || "Не удалось выполнить поиск.");
+        }
+        setSearchResults(payload.results || []);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+        setError(message);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [searchQuery, space]);
+
+  useEffect(() => {
+    if (!isUsageOpen || isLoading) return;
+    void loadUsage(space);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isUsageOpen, isLoading, space]);
+
   useEffect(() => {
     setError(null);
+    setSearchQuery("");
+    setImportSummary(null);
+    setUsageWarnings([]);
 
     if (space === 4) {
       setIsLoadingChats(false);
@@ -157,15 +596,98 @@ export default function Home() {
 
     setDbCurrentChatId(null);
     setDbMessages([]);
+    setDbLeafId(null);
     void loadChats(space);
+    void loadPresets(space);
+    void loadKnowledge(space);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [space]);
 
   useEffect(() => {
-    setCommonChatSenderId(getOrCreateCommonChatSenderId());
+    const loadCurrentUser = async () => {
+      const response = await fetch("/api/auth", { cache: "no-store" });
+      if (response.status === 401) {
+        window.location.href = "/auth";
+        return;
+      }
+      const payload = await response.json().catch(() => ({}));
+      setCurrentUser(payload?.user ?? null);
+    };
+
+    void loadCurrentUser().catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch("/api/providers", { cache: "no-store" });
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.error || "Не удалось загрузить список провайдеров.");
+        }
+
+        const list = (payload.providers || []) as ProviderInfo[];
+        setProviders(list);
+        setSettings((current) => {
+          if (list.some((item) => item.id === current.provider)) return current;
+          const preferred = list.find((item) => item.id === payload.defaultProvider);
+          return {
+            ...DEFAULT_CHAT_SETTINGS,
+            provider: preferred?.id ?? list[0]?.id ?? null
+          };
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+        setError(message);
+      }
+    };
+
+    void loadProviders();
   }, []);
 
-  const fileToDataUrl = (file: File) => {
+  useEffect(() => {
+    const loadCapabilities = async () => {
+      const response = await fetch("/api/capabilities", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (response.ok) {
+        setFileFormats((payload?.fileFormats || []) as FileFormat[]);
+        setCanTranscribe(Boolean(payload?.transcription));
+      }
+    };
+
+    void loadCapabilities().catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    return () => recorderRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    if (!settingsDirty || isTempSpace || !dbCurrentChatId) return;
+
+    const chatId = dbCurrentChatId;
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch("/api/chats", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ chatId, settings })
+        });
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.error || "Не удалось сохранить параметры чата.");
+        }
+        setSettingsDirty(false);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+        setError(message);
+      }
+    }, 600);
+
+    return () => window.clearTimeout(timer);
+  }, [settings, settingsDirty, isTempSpace, dbCurrentChatId]);
+
+  const fileToDataUrl = (file: Blob) => {
     return new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => resolve(String(reader.result));
@@ -187,6 +709,55 @@ export default function Home() {
     });
   };
 
+  const startRecording = async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === "undefined") {
+      setError("Браузер не поддерживает запись звука.");
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError("Нет доступа к микрофону.");
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+
+      const type = recorder.mimeType || "audio/webm";
+      const blob = new Blob(chunks, { type });
+      if (blob.size === 0) return;
+      if (blob.size > MAX_AUDIO_SIZE_MB * 1024 * 1024) {
+        setError(`Запись слишком длинная. Максимум ${MAX_AUDIO_SIZE_MB} MB.`);
+        return;
+      }
+
+      // Safari records MP4, Firefox Ogg, Chromium WebM.
+      const extension = type.includes("mp4") ? "mp4" : type.includes("ogg") ? "ogg" : "webm";
+      void fileToDataUrl(blob)
+        .then((url) => setPendingAudio({ name: `voice.${extension}`, type, url }))
+        .catch((err) => setError(err instanceof Error ? err.message : "Неизвестная ошибка."));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
   const handleImageFiles = async (files: FileList | File[]) => {
     setError(null);
     const items = Array.from(files).filter((file) => file.type.startsWith("image/"));
@@ -213,10 +784,10 @@ export default function Home() {
 
   const handleDataFiles = async (files: FileList | File[]) => {
     setError(null);
-    const items = Array.from(files).filter(isSupportedDataFile);
+    const items = Array.from(files).filter((file) => isSupportedDataFile(file, fileFormats));
 
     if (items.length === 0) {
-      setError("Поддерживаются PDF, DOCX, XLSX, XLS и CSV.");
+      setError(`Поддерживаются ${fileFormatLabels}.`);
       return;
     }
 
@@ -272,11 +843,160 @@ export default function Home() {
     }
   };
 
-  const loadCommonChat = async (silent = false) => {
-    if (!silent) {
-      setIsCommonChatLoading(true);
+  const loadPresets = async (targetSpace: 1 | 2 | 3) => {
+    try {
+      const response = await fetch(`/api/prompt-presets?space=${targetSpace}`, {
+        cache: "no-store"
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить пресеты.");
+      }
+      setPresets(payload.presets || []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const savePromptAsPreset = async () => {
+    if (isTempSpace || !settings.systemPrompt) return;
+    const title = window.prompt("Название пресета")?.trim();
+    if (!title) return;
+
+    try {
+      const response = await fetch("/api/prompt-presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ space, title, prompt: settings.systemPrompt })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось сохранить пресет.");
+      }
+      await loadPresets(space as 1 | 2 | 3);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const updatePreset = async (presetId: string, method: "PATCH" | "DELETE") => {
+    if (method === "DELETE" && !window.confirm("Удалить пресет?")) return;
+
+    try {
+      const response = await fetch("/api/prompt-presets", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          method === "PATCH" ? { id: presetId, isDefault: true } : { id: presetId }
+        )
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось обновить пресет.");
+      }
+      await loadPresets(space as 1 | 2 | 3);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const mergeCommonChatMessages = (incoming: CommonChatMessage[]) => {
+    if (incoming.length === 0) return;
+    setCommonChatMessages((prev) => {
+      const byId = new Map(prev.map((message) => [message.id, message]));
+      for (const message of incoming) {
+        const existing = byId.get(message.id);
+        if (!existing || existing.revision < message.revision) {
+          byId.set(message.id, message);
+        }
+      }
+      return Array.from(byId.values())
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(-COMMON_CHAT_LIMIT);
+    });
+    // Pinned messages can be older than the loaded page, so they are tracked apart.
+    setCommonChatPinned((prev) => {
+      let next = prev;
+      for (const message of incoming) {
+        const existing = next.find((item) => item.id === message.id);
+        if (existing && existing.revision >= message.revision) continue;
+        next = next.filter((item) => item.id !== message.id);
+        if (message.pinnedAt && !message.deletedAt) {
+          next = [...next, message].sort((a, b) =>
+            (a.pinnedAt ?? "").localeCompare(b.pinnedAt ?? "")
+          );
+        }
+      }
+      return next;
+    });
+  };
+
+  /** Shows a participant's new name and color on the messages already loaded. */
+  const applyCommonChatProfile = (profile: CommonChatProfile) => {
+    const rename = (message: CommonChatMessage) =>
+      message.senderId === profile.userId
+        ? { ...message, senderName: profile.displayName, senderColor: profile.color }
+        : message;
+    setCommonChatMessages((prev) => prev.map(rename));
+    setCommonChatPinned((prev) => prev.map(rename));
+    setCommonChatProfile((prev) => (prev?.userId === profile.userId ? profile : prev));
+  };
+
+  const openCommonChatProfile = async () => {
+    if (isCommonChatProfileOpen) {
+      setIsCommonChatProfileOpen(false);
+      return;
     }
 
+    try {
+      const response = await fetch("/api/common-chat/profile", { cache: "no-store" });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить профиль.");
+      }
+      setCommonChatColors(payload.colors || []);
+      setProfileNameInput(payload.profile.displayName);
+      setProfileColorInput(payload.profile.color);
+      setIsCommonChatProfileOpen(true);
+      setCommonChatError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setCommonChatError(message);
+    }
+  };
+
+  const saveCommonChatProfile = async () => {
+    if (isProfileSaving) return;
+    setIsProfileSaving(true);
+
+    try {
+      const response = await fetch("/api/common-chat/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ displayName: profileNameInput, color: profileColorInput })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось сохранить профиль.");
+      }
+      applyCommonChatProfile(payload.profile);
+      setIsCommonChatProfileOpen(false);
+      setCommonChatError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setCommonChatError(message);
+    } finally {
+      setIsProfileSaving(false);
+    }
+  };
+
+  /** Initial page of messages; returns the revision to stream from. */
+  const loadCommonChat = async (): Promise<number | null> => {
+    setIsCommonChatLoading(true);
+
     try {
       const response = await fetch(`/api/common-chat?limit=${COMMON_CHAT_LIMIT}`, {
         cache: "no-store"
@@ -286,26 +1006,53 @@ export default function Home() {
         throw new Error(payload?.error || "Не удалось загрузить общий чат.");
       }
       setCommonChatMessages(payload.messages || []);
+      setCommonChatPinned(payload.pinned || []);
+      setCommonChatProfile(payload.profile ?? null);
+      setCommonChatEditWindowMs(payload.editWindowMs ?? 0);
+      setCommonChatBots(payload.bots || []);
       setCommonChatError(null);
+      return typeof payload.revision === "number" ? payload.revision : null;
     } catch (err) {
       const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
       setCommonChatError(message);
+      return null;
     } finally {
-      if (!silent) {
-        setIsCommonChatLoading(false);
-      }
+      setIsCommonChatLoading(false);
     }
   };
 
   useEffect(() => {
     if (!commonChatOpen) return;
 
-    void loadCommonChat();
-    const timer = window.setInterval(() => {
-      void loadCommonChat(true);
-    }, 4000);
+    let source: EventSource | null = null;
+    let cancelled = false;
 
-    return () => window.clearInterval(timer);
+    void loadCommonChat().then((revision) => {
+      if (cancelled) return;
+      const since = revision === null ? "" : `?since=${revision}`;
+      source = new EventSource(`/api/common-chat/stream${since}`);
+      source.addEventListener("message", (event) => {
+        mergeCommonChatMessages([JSON.parse((event as MessageEvent<string>).data)]);
+      });
+      source.addEventListener("profile", (event) => {
+        applyCommonChatProfile(JSON.parse((event as MessageEvent<string>).data));
+      });
+      source.onopen = () => setCommonChatError(null);
+      source.onerror = () => {
+        // EventSource reconnects by itself and resumes from Last-Event-ID,
+        // unless the server refused the stream (e.g. the session expired).
+        setCommonChatError(
+          source?.readyState === EventSource.CLOSED
+            ? "Общий чат недоступен. Обновите страницу."
+            : "Соединение с общим чатом потеряно. Переподключение..."
+        );
+      };
+    });
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [commonChatOpen]);
 
@@ -314,8 +1061,32 @@ export default function Home() {
     commonBottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [commonChatOpen, commonChatMessages, isCommonChatSending]);
 
+  const applyChatSettings = (chatSettings: ChatSettings | undefined) => {
+    setSettingsDirty(false);
+    if (!chatSettings?.provider) return;
+    if (!providers.some((item) => item.id === chatSettings.provider)) return;
+    setSettings(chatSettings);
+  };
+
+  const updateSettings = (patch: Partial<ChatSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+
+    if (isTempSpace) {
+      if (tempCurrentChatId) {
+        setTempChats((prev) =>
+          prev.map((chat) => (chat.id === tempCurrentChatId ? { ...chat, settings: next } : chat))
+        );
+      }
+      return;
+    }
+
+    setSettingsDirty(true);
+  };
+
   const openPersistentChat = async (chatId: string) => {
     setIsLoadingMessages(true);
+    setSettingsDirty(false);
     setDbCurrentChatId(chatId);
     setError(null);
     try {
@@ -331,7 +1102,9 @@ export default function Home() {
         }
         throw new Error(payload?.error || "Не удалось открыть чат.");
       }
-      setDbMessages(payload.messages || []);
+      setDbMessages(((payload.messages || []) as StoredMessage[]).map(toClientMessage));
+      setDbLeafId(payload.chat?.currentLeafId ?? null);
+      applyChatSettings(payload.chat?.settings);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
       setError(message);
@@ -343,12 +1116,124 @@ export default function Home() {
   const openChat = (chatId: string) => {
     if (isTempSpace) {
       setTempCurrentChatId(chatId);
+      applyChatSettings(tempChats.find((chat) => chat.id === chatId)?.settings);
       return;
     }
 
     void openPersistentChat(chatId);
   };
 
+  const importChats = async (file: File) => {
+    if (isTempSpace) return;
+
+    setIsImporting(true);
+    setImportSummary(null);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("space", String(space));
+
+      const response = await fetch("/api/chats/import", { method: "POST", body: form });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось импортировать чаты.");
+      }
+
+      const skipped = (payload.skipped || []) as Array<{ reason: string }>;
+      const duplicates = skipped.filter((item) => item.reason === "duplicate").length;
+      const empty = skipped.length - duplicates;
+      setImportSummary(
+        `Импортировано: ${payload.imported?.length ?? 0}. Пропущено дубликатов: ${duplicates}, пустых: ${empty}.`
+      );
+      await loadChats(space as 1 | 2 | 3);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const loadKnowledge = async (targetSpace: 1 | 2 | 3) => {
+    try {
+      const response = await fetch(`/api/knowledge?space=${targetSpace}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить базу знаний.");
+      }
+      setKnowledgeDocuments(payload.documents || []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const uploadKnowledgeDocuments = async (files: File[]) => {
+    if (isTempSpace) return;
+
+    setIsUploadingKnowledge(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const form = new FormData();
+        form.append("file", file);
+        form.append("space", String(space));
+
+        const response = await fetch("/api/knowledge", { method: "POST", body: form });
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(payload?.error || `Не удалось добавить ${file.name}.`);
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    } finally {
+      setIsUploadingKnowledge(false);
+      await loadKnowledge(space as 1 | 2 | 3);
+    }
+  };
+
+  const deleteKnowledgeDocument = async (target: KnowledgeDocument) => {
+    if (!window.confirm(`Удалить «${target.name}» из базы знаний раздела?`)) return;
+
+    try {
+      const response = await fetch(`/api/knowledge?id=${encodeURIComponent(target.id)}`, {
+        method: "DELETE"
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось удалить документ.");
+      }
+      setKnowledgeDocuments((prev) => prev.filter((item) => item.id !== target.id));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const loadUsage = async (targetSpace: number) => {
+    try {
+      const response = await fetch(`/api/usage?period=month&space=${targetSpace}`);
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить расход.");
+      }
+      setUsageReport(payload as UsageReport);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const openSearchResult = async (result: SearchResult) => {
+    if (result.chatId !== dbCurrentChatId) {
+      await openPersistentChat(result.chatId);
+    }
+    setHighlightedMessageId(result.messageId);
+  };
+
   const deletePersistentChat = async (chatId: string) => {
     const response = await fetch("/api/chats", {
       method: "DELETE",
@@ -364,6 +1249,7 @@ export default function Home() {
     if (dbCurrentChatId === chatId) {
       setDbCurrentChatId(null);
       setDbMessages([]);
+      setDbLeafId(null);
     }
 
     await loadChats(space as 1 | 2 | 3);
@@ -403,7 +1289,7 @@ export default function Home() {
     const response = await fetch("/api/chats", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ space })
+      body: JSON.stringify({ space, settings: { ...settings, systemPrompt: null } })
     });
 
     const payload = await response.json();
@@ -412,9 +1298,11 @@ export default function Home() {
     }
 
     const chat = payload.chat as ChatSummary;
+    applyChatSettings(chat.settings);
     setDbChats((prev) => [chat, ...prev]);
     setDbCurrentChatId(chat.id);
     setDbMessages([]);
+    setDbLeafId(null);
     return chat;
   };
 
@@ -424,8 +1312,10 @@ export default function Home() {
       id: generateId(),
       title: "Временный чат",
       updatedAt: now,
-      space: 4
+      space: 4,
+      settings: { ...settings, systemPrompt: null }
     };
+    setSettings(chat.settings!);
 
     setTempChats((prev) => [chat, ...prev]);
     setTempCurrentChatId(chat.id);
@@ -479,6 +1369,28 @@ export default function Home() {
     });
   };
 
+  const updateMessage = (
+    chatId: string,
+    messageId: string,
+    update: (message: Message) => Message | null
+  ) => {
+    const apply = (list: Message[]) =>
+      list.flatMap((message) => {
+        if (message.id !== messageId) return [message];
+        const next = update(message);
+        return next ? [next] : [];
+      });
+
+    if (isTempSpace) {
+      setTempMessagesByChatId((prev) => ({
+        ...prev,
+        [chatId]: apply(prev[chatId] || [])
+      }));
+    } else {
+      setDbMessages(apply);
+    }
+  };
+
   const formatTimestamp = (value: string) => {
     const date = new Date(value);
     if (Number.isNaN(date.getTime())) return "";
@@ -490,6 +1402,149 @@ export default function Home() {
     });
   };
 
+  /**
+   * Posts to /api/chat and streams the reply into a draft message. In saved
+   * chats the optimistic user message and the draft get their stored ids once
+   * the reply is done, and are dropped again if the request fails.
+   */
+  const streamReply = async (
+    activeChatId: string,
+    requestBody: Record<string, unknown>,
+    pendingUserId: string | null,
+    draftParentId: string | null,
+    restoreLeafId: string | null
+  ) => {
+    const draftId = generateId();
+    let draftText = "";
+    let draftToolCalls: ToolCallRecord[] = [];
+    let streamError: string | null = null;
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          settings,
+          stream: true,
+          fileMode,
+          imageOutput: supportsImageOutput && imageOutput,
+          ...requestBody
+        })
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error || "Запрос не выполнен.");
+      }
+
+      const draftMessage: Message = {
+        id: draftId,
+        parentId: draftParentId,
+        role: "assistant",
+        text: ""
+      };
+
+      if (isTempSpace) {
+        appendTempMessage(activeChatId, draftMessage);
+      } else {
+        setDbMessages((prev) => [...prev, draftMessage]);
+        setDbLeafId(draftId);
+      }
+      setStreamingMessageId(draftId);
+
+      await readChatStream(response, (event) => {
+        if (event.type === "delta") {
+          draftText += event.text;
+          const nextText = draftText;
+          updateMessage(activeChatId, draftId, (message) => ({
+            ...message,
+            text: nextText
+          }));
+        } else if (event.type === "tool") {
+          draftToolCalls = [...draftToolCalls, event.call];
+          const nextToolCalls = draftToolCalls;
+          updateMessage(activeChatId, draftId, (message) => ({
+            ...message,
+            toolCalls: nextToolCalls
+          }));
+        } else if (event.type === "done") {
+          const saved = event.assistantMessage;
+          const savedUser = event.userMessage;
+          setUsageWarnings(event.warnings ?? []);
+
+          const transcript = event.transcript;
+          const images = event.images?.length ? event.images : undefined;
+          const toolCalls = event.toolCalls?.length ? event.toolCalls : undefined;
+          const sources = event.sources?.length ? event.sources : undefined;
+          const withTranscript = (message: Message): Message =>
+            transcript
+              ? { ...message, text: [message.text, transcript].filter(Boolean).join("\n\n") }
+              : message;
+
+          if (isTempSpace) {
+            if (pendingUserId && transcript) {
+              updateMessage(activeChatId, pendingUserId, withTranscript);
+            }
+            updateMessage(activeChatId, draftId, (message) => ({
+              ...message,
+              id: saved?.id || draftId,
+              text: event.output,
+              images,
+              toolCalls,
+              sources,
+              usage: event.usage
+            }));
+            return;
+          }
+
+          setDbMessages((prev) =>
+            prev.map((message) => {
+              if (message.id === draftId) {
+                return {
+                  ...message,
+                  id: saved.id,
+                  parentId: saved.parentId,
+                  text: event.output,
+                  images,
+                  toolCalls,
+                  sources,
+                  usage: event.usage
+                };
+              }
+              if (savedUser && message.id === pendingUserId) {
+                return withTranscript({
+                  ...message,
+                  id: savedUser.id,
+                  parentId: savedUser.parentId
+                });
+              }
+              return message;
+            })
+          );
+          setDbLeafId(saved.id);
+        } else if (event.type === "error") {
+          streamError = event.error;
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+    } catch (err) {
+      if (isTempSpace) {
+        if (!draftText) {
+          updateMessage(activeChatId, draftId, () => null);
+        }
+      } else {
+        setDbMessages((prev) =>
+          prev.filter((message) => message.id !== draftId && message.id !== pendingUserId)
+        );
+        setDbLeafId(restoreLeafId);
+      }
+      throw err;
+    }
+  };
+
   const handleSend = async () => {
     if (!canSend) return;
 
@@ -499,24 +1554,34 @@ export default function Home() {
     const userText = input.trim();
     const outgoingImages = pendingImages;
     const outgoingFiles = pendingFiles;
+    const outgoingAudio = pendingAudio;
 
     try {
       const activeChatId = await ensureChat();
       const history = isTempSpace
         ? (tempMessagesByChatId[activeChatId] || []).map((message) => ({
             role: message.role,
-            text: message.text
+            text: message.text,
+            images: message.images,
+            files: message.files?.filter((file) => file.data)
           }))
         : undefined;
+      const parentId = isTempSpace ? null : (messages[messages.length - 1]?.id ?? null);
 
       const userMessage: Message = {
         id: generateId(),
+        parentId,
         role: "user",
         text: userText,
         images: outgoingImages.length ? outgoingImages : undefined,
         files: outgoingFiles.length
-          ? outgoingFiles.map((file) => ({ name: file.name, type: file.type }))
-          : undefined
+          ? outgoingFiles.map((file) => ({
+              name: file.name,
+              type: file.type,
+              data: isTempSpace ? file.data : undefined
+            }))
+          : undefined,
+        audio: outgoingAudio?.url
       };
 
       if (isTempSpace) {
@@ -524,60 +1589,139 @@ export default function Home() {
         touchTempChat(activeChatId, userText || undefined);
       } else {
         setDbMessages((prev) => [...prev, userMessage]);
+        setDbLeafId(userMessage.id);
       }
 
       setInput("");
       setPendingImages([]);
       setPendingFiles([]);
-
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          provider,
-          chatId: isTempSpace ? null : activeChatId,
-          ephemeral: isTempSpace,
-          history,
-          text: userMessage.text,
-          images: userMessage.images,
-          files: outgoingFiles
-        })
-      });
-
-      const payload = await response.json();
-      if (!response.ok) {
-        throw new Error(payload?.error || "Запрос не выполнен.");
+      setPendingAudio(null);
+
+      try {
+        await streamReply(
+          activeChatId,
+          {
+            chatId: isTempSpace ? null : activeChatId,
+            ephemeral: isTempSpace,
+            history,
+            parentId: isTempSpace ? undefined : parentId,
+            text: userMessage.text,
+            images: userMessage.images,
+            files: outgoingFiles,
+            audio: outgoingAudio
+              ? { name: outgoingAudio.name, type: outgoingAudio.type, data: outgoingAudio.url }
+              : undefined
+          },
+          userMessage.id,
+          userMessage.id,
+          parentId
+        );
+      } catch (err) {
+        if (!isTempSpace) {
+          setInput((current) => current || userText);
+        }
+        setPendingAudio((current) => current ?? outgoingAudio);
+        throw err;
       }
 
-      const assistantMessage: Message = {
-        id: payload?.assistantMessage?.id || generateId(),
-        role: "assistant",
-        text: payload.output || ""
-      };
-
       if (isTempSpace) {
-        appendTempMessage(activeChatId, assistantMessage);
         touchTempChat(activeChatId);
       } else {
-        setDbMessages((prev) => [...prev, assistantMessage]);
         void loadChats(space as 1 | 2 | 3);
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
       setError(message);
     } finally {
+      setStreamingMessageId(null);
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditingText(message.text);
+  };
+
+  const submitEdit = async (message: Message) => {
+    const nextText = editingText.trim();
+    if (!nextText || isLoading || !dbCurrentChatId) return;
+
+    const chatId = dbCurrentChatId;
+    const previousLeafId = messages[messages.length - 1]?.id ?? null;
+    const edited: Message = { ...message, id: generateId(), text: nextText };
+
+    setEditingMessageId(null);
+    setIsLoading(true);
+    setError(null);
+    setDbMessages((prev) => [...prev, edited]);
+    setDbLeafId(edited.id);
+
+    try {
+      await streamReply(
+        chatId,
+        { chatId, editOf: message.id, text: nextText },
+        edited.id,
+        edited.id,
+        previousLeafId
+      );
+      void loadChats(space as 1 | 2 | 3);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(errorMessage);
+    } finally {
+      setStreamingMessageId(null);
+      setIsLoading(false);
+    }
+  };
+
+  const regenerateReply = async (message: Message) => {
+    if (isLoading || !dbCurrentChatId || !message.parentId) return;
+
+    const chatId = dbCurrentChatId;
+    const previousLeafId = messages[messages.length - 1]?.id ?? null;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await streamReply(
+        chatId,
+        { chatId, regenerateId: message.id },
+        null,
+        message.parentId,
+        previousLeafId
+      );
+      void loadChats(space as 1 | 2 | 3);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(errorMessage);
+    } finally {
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  const selectSibling = (message: Message, offset: number) => {
+    if (!dbCurrentChatId) return;
+
+    const siblings = getSiblings(dbMessages, message);
+    const target = siblings[siblings.findIndex((item) => item.id === message.id) + offset];
+    if (!target) return;
+
+    const leafId = getLatestLeaf(dbMessages, target.id);
+    setDbLeafId(leafId);
+    void fetch("/api/chats", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chatId: dbCurrentChatId, currentLeafId: leafId })
+    }).catch(() => undefined);
+  };
+
   const handleCommonChatSend = async () => {
     if (isCommonChatSending) return;
     const text = commonChatInput.trim();
     if (!text) return;
-    if (!commonChatSenderId) {
-      setCommonChatError("Не удалось определить отправителя. Перезагрузите страницу.");
-      return;
-    }
 
     setIsCommonChatSending(true);
     setCommonChatError(null);
@@ -586,17 +1730,17 @@ export default function Home() {
       const response = await fetch("/api/common-chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          senderId: commonChatSenderId,
-          text
-        })
+        body: JSON.stringify({ text })
       });
       const payload = await response.json();
       if (!response.ok) {
         throw new Error(payload?.error || "Не удалось отправить сообщение.");
       }
       setCommonChatInput("");
-      setCommonChatMessages((prev) => [...prev, payload.message]);
+      mergeCommonChatMessages([payload.message]);
+      if (payload.warnings?.length) {
+        setCommonChatError(payload.warnings.join(" "));
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
       setCommonChatError(message);
@@ -605,6 +1749,105 @@ export default function Home() {
     }
   };
 
+  const loadCommonChatMutes = async () => {
+    try {
+      const response = await fetch("/api/common-chat/mutes", { cache: "no-store" });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить ограничения.");
+      }
+      setCommonChatMutes(payload.mutes || []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setCommonChatError(message);
+    }
+  };
+
+  useEffect(() => {
+    if (!commonChatOpen || currentUser?.role !== "admin") return;
+    void loadCommonChatMutes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commonChatOpen, currentUser?.role]);
+
+  const canChangeCommonChatMessage = (message: CommonChatMessage) =>
+    message.senderId === currentUser?.id &&
+    Date.now() - Date.parse(message.createdAt) < commonChatEditWindowMs;
+
+  /** Sends a moderation request; the change itself arrives through the stream too. */
+  const updateCommonChatMessage = async (
+    message: CommonChatMessage,
+    method: "PATCH" | "DELETE",
+    body?: Record<string, unknown>
+  ) => {
+    try {
+      const response = await fetch(`/api/common-chat?id=${encodeURIComponent(message.id)}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось изменить сообщение.");
+      }
+      mergeCommonChatMessages([payload.message]);
+      setCommonChatError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setCommonChatError(errorMessage);
+    }
+  };
+
+  const editCommonChatMessage = (message: CommonChatMessage) => {
+    const text = window.prompt("Изменить сообщение", message.text)?.trim();
+    if (!text || text === message.text) return;
+    void updateCommonChatMessage(message, "PATCH", { text });
+  };
+
+  const deleteCommonChatMessage = (message: CommonChatMessage) => {
+    if (!window.confirm("Удалить сообщение из общего чата?")) return;
+    void updateCommonChatMessage(message, "DELETE");
+  };
+
+  const toggleCommonChatMute = async (message: CommonChatMessage) => {
+    const muted = commonChatMutes.some((mute) => mute.userId === message.senderId);
+    let request: RequestInit;
+    if (muted) {
+      if (!window.confirm(`Снова разрешить ${message.senderName} писать в общий чат?`)) return;
+      request = { method: "DELETE" };
+    } else {
+      const answer = window.prompt(
+        `На сколько минут запретить ${message.senderName} писать? Пусто — до отмены.`,
+        "60"
+      );
+      if (answer === null) return;
+      request = {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: message.senderId,
+          minutes: answer.trim() ? Number(answer) : null
+        })
+      };
+    }
+
+    try {
+      const response = await fetch(
+        muted
+          ? `/api/common-chat/mutes?id=${encodeURIComponent(message.senderId)}`
+          : "/api/common-chat/mutes",
+        request
+      );
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось изменить ограничение.");
+      }
+      await loadCommonChatMutes();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setCommonChatError(errorMessage);
+    }
+  };
+
   const handleCommonChatKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key !== "Enter") return;
     event.preventDefault();
@@ -626,7 +1869,75 @@ export default function Home() {
     }
   };
 
+  const handleLogout = async () => {
+    await fetch("/api/auth", { method: "DELETE" }).catch(() => undefined);
+    window.location.href = "/auth";
+  };
+
+  const renderMessageActions = (message: Message) => {
+    const siblings = getSiblings(dbMessages, message);
+    const position = siblings.findIndex((item) => item.id === message.id);
+    const isSaved = message.id !== streamingMessageId;
+    const canRegenerate = message.role === "assistant" && Boolean(message.parentId);
+
+    if (!isSaved) return null;
+
+    return (
+      <div className="message-actions">
+        {siblings.length > 1 ? (
+          <div className="branch-switch" aria-label="Версии сообщения">
+            <button
+              type="button"
+              onClick={() => selectSibling(message, -1)}
+              disabled={isLoading || position <= 0}
+              aria-label="Предыдущая версия"
+            >
+              ‹
+            </button>
+            <span>
+              {position + 1}/{siblings.length}
+            </span>
+            <button
+              type="button"
+              onClick={() => selectSibling(message, 1)}
+              disabled={isLoading || position >= siblings.length - 1}
+              aria-label="Следующая версия"
+            >
+              ›
+            </button>
+          </div>
+        ) : null}
+        {message.role === "user" ? (
+          <button
+            type="button"
+            className="message-action"
+            onClick={() => startEditing(message)}
+            disabled={isLoading}
+          >
+            Изменить
+          </button>
+        ) : null}
+        {canRegenerate ? (
+          <button
+            type="button"
+            className="message-action"
+            onClick={() => void regenerateReply(message)}
+            disabled={isLoading}
+          >
+            Повторить
+          </button>
+        ) : null}
+      </div>
+    );
+  };
+
   const isEmptyState = messages.length === 0 && !isLoading;
+  const isAwaitingFirstToken =
+    isLoading &&
+    !messages.some(
+      (message) =>
+        message.id === streamingMessageId && (message.text || message.toolCalls?.length)
+    );
 
   return (
     <main>
@@ -645,16 +1956,29 @@ export default function Home() {
               <select
                 id="provider-select"
                 value={provider}
-                onChange={(event) => setProvider(event.target.value as Provider)}
+                onChange={(event) =>
+                  updateSettings({
+                    provider: event.target.value,
+                    model: null,
+                    reasoningEffort: null
+                  })
+                }
+                disabled={providers.length === 0}
               >
-                <option value="openai">OpenAI</option>
-                <option value="gemini">Gemini</option>
+                {providers.length === 0 ? <option value="">Нет провайдеров</option> : null}
+                {providers.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.label}
+                  </option>
+                ))}
               </select>
             </label>
 
-            <div className="model-pill">
-              {PROVIDER_META[provider].label} <span>{PROVIDER_META[provider].model}</span>
-            </div>
+            {activeProvider ? (
+              <div className="model-pill">
+                {activeProvider.label} <span>{settings.model ?? activeProvider.model}</span>
+              </div>
+            ) : null}
 
             <div className="space-switch" aria-label="Выбор раздела чатов">
               {SPACE_VALUES.map((value) => (
@@ -678,6 +2002,20 @@ export default function Home() {
                 </button>
               ))}
             </div>
+
+            {currentUser ? (
+              <div className="user-control">
+                {currentUser.role === "admin" ? (
+                  <a href="/users" className="user-link">
+                    Пользователи
+                  </a>
+                ) : null}
+                <span className="user-name">{currentUser.username}</span>
+                <button type="button" className="link-button sidebar-button" onClick={handleLogout}>
+                  Выйти
+                </button>
+              </div>
+            ) : null}
           </div>
         </header>
 
@@ -699,6 +2037,36 @@ export default function Home() {
               >
                 Новый чат
               </button>
+              {!isTempSpace ? (
+                <a
+                  href={`/api/chats/export?space=${space}&format=md`}
+                  className="link-button sidebar-button export-link"
+                  download
+                  title="Скачать все чаты раздела в Markdown одним архивом"
+                >
+                  Экспорт (zip)
+                </a>
+              ) : null}
+              {!isTempSpace ? (
+                <label
+                  className="link-button sidebar-button import-button"
+                  title="ChatGPT (conversations.json или zip), Google Takeout для Gemini или экспорт этого сайта"
+                >
+                  {isImporting ? "Импорт..." : "Импорт"}
+                  <input
+                    type="file"
+                    accept=".json,.zip,application/json,application/zip"
+                    disabled={isImporting}
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      if (file) {
+                        void importChats(file);
+                        event.target.value = "";
+                      }
+                    }}
+                  />
+                </label>
+              ) : null}
             </div>
 
             <div className="sidebar-subtitle">
@@ -707,45 +2075,267 @@ export default function Home() {
                 : `Раздел ${space}: чаты сохраняются постоянно.`}
             </div>
 
-            <div className="chat-list">
-              {isLoadingChats ? (
-                <div className="muted">Загрузка списка...</div>
-              ) : chats.length ? (
-                chats.map((chat) => (
-                  <div
-                    key={chat.id}
-                    role="button"
-                    tabIndex={0}
-                    className={`chat-item ${chat.id === currentChatId ? "active" : ""}`}
-                    onClick={() => openChat(chat.id)}
-                    onKeyDown={(event) => {
-                      if (event.key === "Enter" || event.key === " ") {
-                        event.preventDefault();
-                        openChat(chat.id);
-                      }
-                    }}
-                  >
-                    <div className="chat-main">
-                      <div className="chat-title">{chat.title}</div>
-                      <div className="chat-meta">{formatTimestamp(chat.updatedAt)}</div>
+            {importSummary ? <div className="sidebar-subtitle">{importSummary}</div> : null}
+
+            {!isTempSpace ? (
+              <input
+                type="search"
+                className="sidebar-search"
+                value={searchQuery}
+                onChange={(event) => setSearchQuery(event.target.value)}
+                placeholder="Поиск по чатам"
+                aria-label="Поиск по чатам"
+              />
+            ) : null}
+
+            {searchQuery.trim() && !isTempSpace ? (
+              <div className="chat-list">
+                {isSearching && searchResults.length === 0 ? (
+                  <div className="muted">Поиск...</div>
+                ) : searchResults.length ? (
+                  searchResults.map((result) => (
+                    <div
+                      key={`${result.chatId}-${result.messageId ?? "title"}`}
+                      role="button"
+                      tabIndex={0}
+                      className={`chat-item search-result ${
+                        result.chatId === currentChatId ? "active" : ""
+                      }`}
+                      onClick={() => void openSearchResult(result)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter" || event.key === " ") {
+                          event.preventDefault();
+                          void openSearchResult(result);
+                        }
+                      }}
+                    >
+                      <div className="chat-main">
+                        <div className="chat-title">{result.chatTitle}</div>
+                        {result.kind === "message" ? (
+                          <div className="search-snippet">
+                            {result.snippet.map((part, index) =>
+                              part.match ? (
+                                <mark key={index}>{part.text}</mark>
+                              ) : (
+                                <span key={index}>{part.text}</span>
+                              )
+                            )}
+                          </div>
+                        ) : null}
+                        <div className="chat-meta">
+                          {result.role === "user"
+                            ? "Вы · "
+                            : result.role === "assistant"
+                              ? "Ассистент · "
+                              : ""}
+                          {formatTimestamp(result.createdAt)}
+                        </div>
+                      </div>
                     </div>
-                    <button
-                      type="button"
-                      className="chat-delete"
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        void deleteChat(chat.id);
+                  ))
+                ) : (
+                  <div className="muted">Ничего не найдено.</div>
+                )}
+              </div>
+            ) : (
+              <div className="chat-list">
+                {isLoadingChats ? (
+                  <div className="muted">Загрузка списка...</div>
+                ) : chats.length ? (
+                  chats.map((chat) => (
+                    <div
+                      key={chat.id}
+                      role="button"
+                      tabIndex={0}
+                      className={`chat-item ${chat.id === currentChatId ? "active" : ""}`}
+                      onClick={() => openChat(chat.id)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter" || event.key === " ") {
+                          event.preventDefault();
+                          openChat(chat.id);
+                        }
                       }}
-                      aria-label="Удалить чат"
-                      title="Удалить чат"
                     >
-                      ×
-                    </button>
+                      <div className="chat-main">
+                        <div className="chat-title">{chat.title}</div>
+                        <div className="chat-meta">{formatTimestamp(chat.updatedAt)}</div>
+                      </div>
+                      {!isTempSpace ? (
+                        <div className="chat-export">
+                          <button
+                            type="button"
+                            className="chat-delete"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              setExportMenuChatId((current) =>
+                                current === chat.id ? null : chat.id
+                              );
+                            }}
+                            aria-label="Экспорт чата"
+                            title="Экспорт чата"
+                          >
+                            ⤓
+                          </button>
+                          {exportMenuChatId === chat.id ? (
+                            <div className="chat-export-menu">
+                              {EXPORT_FORMATS.map((format) => (
+                                <a
+                                  key={format.value}
+                                  href={`/api/chats/export?id=${encodeURIComponent(chat.id)}&format=${format.value}`}
+                                  download
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    setExportMenuChatId(null);
+                                  }}
+                                >
+                                  {format.label}
+                                </a>
+                              ))}
+                            </div>
+                          ) : null}
+                        </div>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="chat-delete"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          void deleteChat(chat.id);
+                        }}
+                        aria-label="Удалить чат"
+                        title="Удалить чат"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))
+                ) : (
+                  <div className="muted">Пока нет чатов в этом разделе.</div>
+                )}
+              </div>
+            )}
+
+            {!isTempSpace ? (
+              <div className="usage-panel knowledge-panel">
+                <button
+                  type="button"
+                  className="usage-toggle"
+                  onClick={() => setIsKnowledgeOpen((open) => !open)}
+                  aria-expanded={isKnowledgeOpen}
+                >
+                  База знаний ({knowledgeDocuments.length}) {isKnowledgeOpen ? "▴" : "▾"}
+                </button>
+                {isKnowledgeOpen ? (
+                  <div className="usage-body">
+                    {knowledgeDocuments.map((item) => (
+                      <div key={item.id} className="usage-row knowledge-document">
+                        <a
+                          href={`/api/knowledge/file?id=${encodeURIComponent(item.id)}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          title={`Фрагментов: ${item.chunkCount}`}
+                        >
+                          {item.name}
+                        </a>
+                        <button
+                          type="button"
+                          className="chat-delete"
+                          onClick={() => void deleteKnowledgeDocument(item)}
+                          aria-label={`Удалить ${item.name}`}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    {knowledgeDocuments.length === 0 ? (
+                      <div className="muted">
+                        Ваши документы раздела доступны модели во всех ваших чатах в нём.
+                      </div>
+                    ) : null}
+                    <label className="link-button sidebar-button import-button">
+                      {isUploadingKnowledge ? "Индексирую..." : "Добавить документы"}
+                      <input
+                        type="file"
+                        multiple
+                        accept={fileAccept}
+                        disabled={isUploadingKnowledge}
+                        onChange={(event) => {
+                          const files = Array.from(event.target.files ?? []);
+                          if (files.length > 0) {
+                            void uploadKnowledgeDocuments(files);
+                            event.target.value = "";
+                          }
+                        }}
+                      />
+                    </label>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="usage-panel">
+              <button
+                type="button"
+                className="usage-toggle"
+                onClick={() => setIsUsageOpen((open) => !open)}
+                aria-expanded={isUsageOpen}
+              >
+                Расход за месяц {isUsageOpen ? "▴" : "▾"}
+              </button>
+              {isUsageOpen ? (
+                usageReport ? (
+                  <div className="usage-body">
+                    <div className="usage-row">
+                      <span>Раздел {space}</span>
+                      <strong>{formatCost(usageReport.totals.cost)}</strong>
+                    </div>
+                    <div className="chat-meta">
+                      Запросов: {usageReport.totals.requests} · токенов:{" "}
+                      {formatTokens(usageReport.totals.inputTokens)} →{" "}
+                      {formatTokens(usageReport.totals.outputTokens)}
+                      {usageReport.totals.cachedTokens
+                        ? ` (из кэша ${formatTokens(usageReport.totals.cachedTokens)})`
+                        : ""}
+                    </div>
+                    {usageReport.quotas.map((quota) => (
+                      <div
+                        key={`${quota.scope}-${quota.period}-${quota.metric}`}
+                        className="usage-quota"
+                      >
+                        <div className="chat-meta">{describeQuota(quota)}</div>
+                        <div className="usage-bar">
+                          <span
+                            className={quota.used >= quota.limit ? "full" : ""}
+                            style={{
+                              width: `${Math.min(100, quota.limit ? (quota.used / quota.limit) * 100 : 100)}%`
+                            }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                    {usageReport.totals.unpricedRequests ? (
+                      <div className="chat-meta">
+                        Без цены: {usageReport.totals.unpricedRequests} запр.
+                      </div>
+                    ) : null}
+                    {usageReport.chats.slice(0, 5).map((item) => (
+                      <div key={item.chatId} className="usage-row usage-chat">
+                        <span>{item.title ?? "Удалённый чат"}</span>
+                        <span>{formatCost(item.cost)}</span>
+                      </div>
+                    ))}
+                    <div className="usage-spaces">
+                      {usageReport.spaces.map((item) => (
+                        <span key={item.space}>
+                          {item.space}: {formatCost(item.cost)}
+                        </span>
+                      ))}
+                    </div>
                   </div>
-                ))
-              ) : (
-                <div className="muted">Пока нет чатов в этом разделе.</div>
-              )}
+                ) : (
+                  <div className="muted">Загрузка...</div>
+                )
+              ) : null}
             </div>
           </aside>
 
@@ -763,12 +2353,63 @@ export default function Home() {
               ) : null}
 
               {messages.map((message) => (
-                <div key={message.id} className={`message ${message.role}`}>
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={`message ${message.role} ${
+                    message.id === highlightedMessageId ? "highlighted" : ""
+                  }`}
+                >
                   <div className="message-role">
                     {message.role === "user" ? "Вы" : "Ассистент"}
                   </div>
 
-                  {message.text ? (
+                  {message.toolCalls?.length ? (
+                    <details className="tool-steps">
+                      <summary>Инструменты: {message.toolCalls.length}</summary>
+                      {message.toolCalls.map((call, index) => (
+                        <details
+                          key={index}
+                          className={`tool-step${call.isError ? " failed" : ""}`}
+                        >
+                          <summary>
+                            {call.label}
+                            {call.isError ? " — ошибка" : ""}
+                          </summary>
+                          <pre>{JSON.stringify(call.arguments, null, 2)}</pre>
+                          <pre>{call.output}</pre>
+                        </details>
+                      ))}
+                    </details>
+                  ) : null}
+
+                  {editingMessageId === message.id ? (
+                    <div className="message-edit">
+                      <textarea
+                        value={editingText}
+                        onChange={(event) => setEditingText(event.target.value)}
+                        rows={3}
+                        autoFocus
+                      />
+                      <div className="message-actions">
+                        <button
+                          type="button"
+                          className="link-button sidebar-button"
+                          onClick={() => void submitEdit(message)}
+                          disabled={isLoading || !editingText.trim()}
+                        >
+                          Отправить
+                        </button>
+                        <button
+                          type="button"
+                          className="link-button sidebar-button"
+                          onClick={() => setEditingMessageId(null)}
+                        >
+                          Отмена
+                        </button>
+                      </div>
+                    </div>
+                  ) : message.text ? (
                     <div className={`bubble ${message.role}`}>
                       {message.role === "assistant" ? (
                         <ReactMarkdown remarkPlugins={[remarkGfm]}>
@@ -784,25 +2425,83 @@ export default function Home() {
                     <div className="image-grid">
                       {message.images.map((image, index) => (
                         <div key={index} className="image-thumb">
-                          <img src={image} alt="Загружено пользователем" />
+                          <img
+                            src={image}
+                            alt={
+                              message.role === "assistant"
+                                ? "Сгенерировано моделью"
+                                : "Загружено пользователем"
+                            }
+                          />
+                          <a
+                            className="image-download"
+                            href={getImageDownloadUrl(image)}
+                            download={`image-${index + 1}`}
+                          >
+                            Скачать
+                          </a>
                         </div>
                       ))}
                     </div>
                   ) : null}
 
+                  {message.audio ? (
+                    <audio className="message-audio" controls preload="none" src={message.audio} />
+                  ) : null}
+
                   {message.files?.length ? (
                     <div className="file-list">
-                      {message.files.map((file, index) => (
-                        <div key={index} className="file-chip">
-                          {file.name}
-                        </div>
+                      {message.files.map((file, index) =>
+                        file.url ? (
+                          <a
+                            key={index}
+                            className="file-chip"
+                            href={file.url}
+                            download={file.name}
+                          >
+                            {file.name}
+                          </a>
+                        ) : (
+                          <div key={index} className="file-chip">
+                            {file.name}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  ) : null}
+
+                  {message.sources?.length ? (
+                    <div className="message-sources">
+                      {message.sources.map((source) => (
+                        <a
+                          key={source.index}
+                          href={getKnowledgeSourceUrl(source)}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          [{source.index}] {source.name}
+                          {source.page ? `, стр. ${source.page}` : ""}
+                        </a>
                       ))}
                     </div>
                   ) : null}
+
+                  {message.usage ? (
+                    <div
+                      className="message-usage"
+                      title={`${message.usage.provider} / ${message.usage.model}, из кэша: ${formatTokens(message.usage.cachedTokens)}`}
+                    >
+                      {describeUsage(message.usage)}
+                    </div>
+                  ) : null}
+
+                  {!isTempSpace && editingMessageId !== message.id
+                    ? renderMessageActions(message)
+                    : null}
                 </div>
               ))}
 
-              {isLoading ? (
+              {isAwaitingFirstToken ? (
                 <div className="message">
                   <div className="message-role">Ассистент</div>
                   <div className="bubble assistant">Думаю...</div>
@@ -882,7 +2581,7 @@ export default function Home() {
 
               <div className="upload-zone file-zone">
                 <div>
-                  <strong>Прикрепить файлы</strong> (PDF, DOCX, XLSX, XLS, CSV до{" "}
+                  <strong>Прикрепить файлы</strong> ({fileFormatLabels || "документы"} до{" "}
                   {MAX_FILE_SIZE_MB} MB)
                 </div>
 
@@ -891,7 +2590,7 @@ export default function Home() {
                     Выбрать файлы
                     <input
                       type="file"
-                      accept=".pdf,.docx,.xlsx,.xls,.csv,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,text/csv"
+                      accept={fileAccept}
                       multiple
                       onChange={(event) => {
                         if (event.target.files?.length) {
@@ -914,6 +2613,23 @@ export default function Home() {
                 </div>
               </div>
 
+              {pendingFiles.some((file) => /\.(pdf|xlsx|xls)$/i.test(file.name)) ? (
+                <label className="settings-field file-mode">
+                  <span>PDF и таблицы</span>
+                  <select
+                    value={fileMode}
+                    onChange={(event) => setFileMode(event.target.value as "native" | "text")}
+                  >
+                    <option value="native">
+                      {activeProvider?.nativeFileTypes.length
+                        ? "Файлом, если модель поддерживает"
+                        : "Файлом (модель не поддерживает — будет текст)"}
+                    </option>
+                    <option value="text">Извлечённым текстом</option>
+                  </select>
+                </label>
+              ) : null}
+
               {pendingFiles.length ? (
                 <div className="file-list">
                   {pendingFiles.map((file, index) => (
@@ -935,6 +2651,182 @@ export default function Home() {
                 </div>
               ) : null}
 
+              {activeProvider ? (
+                <div className="chat-settings">
+                  <label className="settings-field">
+                    <span>Модель</span>
+                    <select
+                      value={settings.model ?? activeProvider.model}
+                      onChange={(event) =>
+                        updateSettings({
+                          model:
+                            event.target.value === activeProvider.model
+                              ? null
+                              : event.target.value
+                        })
+                      }
+                    >
+                      {activeProvider.models.map((model) => (
+                        <option key={model} value={model}>
+                          {model}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  {activeProvider.temperatureModels.includes(activeModel) ? (
+                    <label className="settings-field">
+                      <span>Температура</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        placeholder="авто"
+                        value={settings.temperature ?? ""}
+                        onChange={(event) =>
+                          updateSettings({ temperature: parseOptionalNumber(event.target.value) })
+                        }
+                      />
+                    </label>
+                  ) : null}
+
+                  <label className="settings-field">
+                    <span>Макс. токенов</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={256}
+                      placeholder="авто"
+                      value={settings.maxOutputTokens ?? ""}
+                      onChange={(event) =>
+                        updateSettings({
+                          maxOutputTokens: parseOptionalNumber(event.target.value)
+                        })
+                      }
+                    />
+                  </label>
+
+                  {activeProvider.reasoningEffortModels.includes(activeModel) ? (
+                    <label className="settings-field">
+                      <span>Рассуждения</span>
+                      <select
+                        value={settings.reasoningEffort ?? ""}
+                        onChange={(event) =>
+                          updateSettings({ reasoningEffort: event.target.value || null })
+                        }
+                      >
+                        <option value="">Авто</option>
+                        {Object.entries(REASONING_EFFORT_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : null}
+
+                  <button
+                    type="button"
+                    className={`link-button settings-toggle ${
+                      settings.systemPrompt ? "active" : ""
+                    }`}
+                    onClick={() => setIsPromptPanelOpen((prev) => !prev)}
+                  >
+                    Инструкции{settings.systemPrompt ? " ✓" : ""}
+                  </button>
+                </div>
+              ) : null}
+
+              {activeProvider && isPromptPanelOpen ? (
+                <div className="prompt-panel">
+                  {!isTempSpace ? (
+                    <div className="prompt-panel-row">
+                      <select
+                        value={
+                          presets.find((preset) => preset.prompt === settings.systemPrompt)
+                            ?.id ?? ""
+                        }
+                        onChange={(event) => {
+                          const preset = presets.find(
+                            (item) => item.id === event.target.value
+                          );
+                          updateSettings({ systemPrompt: preset?.prompt ?? null });
+                        }}
+                      >
+                        <option value="">Без пресета</option>
+                        {presets.map((preset) => (
+                          <option key={preset.id} value={preset.id}>
+                            {preset.title}
+                            {preset.isDefault ? " (по умолчанию)" : ""}
+                          </option>
+                        ))}
+                      </select>
+
+                      {(() => {
+                        const selected = presets.find(
+                          (preset) => preset.prompt === settings.systemPrompt
+                        );
+                        if (!selected) {
+                          return (
+                            <button
+                              type="button"
+                              className="link-button sidebar-button"
+                              onClick={() => void savePromptAsPreset()}
+                              disabled={!settings.systemPrompt}
+                            >
+                              Сохранить как пресет
+                            </button>
+                          );
+                        }
+
+                        return (
+                          <>
+                            {!selected.isDefault ? (
+                              <button
+                                type="button"
+                                className="link-button sidebar-button"
+                                onClick={() => void updatePreset(selected.id, "PATCH")}
+                              >
+                                По умолчанию для раздела
+                              </button>
+                            ) : null}
+                            <button
+                              type="button"
+                              className="link-button sidebar-button"
+                              onClick={() => void updatePreset(selected.id, "DELETE")}
+                            >
+                              Удалить пресет
+                            </button>
+                          </>
+                        );
+                      })()}
+                    </div>
+                  ) : null}
+
+                  <textarea
+                    className="prompt-textarea"
+                    placeholder="Системный промпт: роль, стиль и правила ответа для этого чата"
+                    value={settings.systemPrompt ?? ""}
+                    maxLength={8000}
+                    onChange={(event) =>
+                      updateSettings({ systemPrompt: event.target.value || null })
+                    }
+                  />
+                </div>
+              ) : null}
+
+              {supportsImageOutput ? (
+                <label className="image-output-toggle">
+                  <input
+                    type="checkbox"
+                    checked={imageOutput}
+                    onChange={(event) => setImageOutput(event.target.checked)}
+                  />
+                  Модель может отвечать изображениями (генерация и правка картинок)
+                </label>
+              ) : null}
+
               <div className="composer-row">
                 <textarea
                   placeholder="Опишите, что нужно (Ctrl/Cmd + Enter для отправки)"
@@ -942,16 +2834,49 @@ export default function Home() {
                   onChange={(event) => setInput(event.target.value)}
                   onKeyDown={handleKeyDown}
                 />
-                <button type="button" onClick={() => void handleSend()} disabled={!canSend}>
-                  {isLoading ? "Отправляю..." : "Отправить"}
-                </button>
+                <div className="composer-actions">
+                  {canTranscribe ? (
+                    <button
+                      type="button"
+                      className={`record-button${isRecording ? " recording" : ""}`}
+                      onClick={() => (isRecording ? stopRecording() : void startRecording())}
+                      disabled={isLoading || (!isRecording && Boolean(pendingAudio))}
+                      title="Надиктовать сообщение"
+                    >
+                      {isRecording ? "Остановить запись" : "Голосом"}
+                    </button>
+                  ) : null}
+                  <button type="button" onClick={() => void handleSend()} disabled={!canSend}>
+                    {isLoading ? "Отправляю..." : "Отправить"}
+                  </button>
+                </div>
               </div>
 
+              {pendingAudio ? (
+                <div className="audio-preview">
+                  <audio controls src={pendingAudio.url} />
+                  <button
+                    type="button"
+                    className="file-remove"
+                    onClick={() => setPendingAudio(null)}
+                    aria-label="Удалить запись"
+                    title="Удалить запись"
+                  >
+                    ×
+                  </button>
+                </div>
+              ) : null}
+
               {error ? <div className="error">{error}</div> : null}
+              {usageWarnings.map((warning) => (
+                <div key={warning} className="usage-warning">
+                  {warning}
+                </div>
+              ))}
 
               <div className="footer-note">
-                Файлы и скриншоты не сохраняются на сервере. В разделе 4 история чатов не
-                сохраняется после перезагрузки страницы.
+                В разделах 1–3 файлы и скриншоты сохраняются вместе с историей чата. В
+                разделе 4 история чатов не сохраняется после перезагрузки страницы.
               </div>
             </div>
           </section>
@@ -977,8 +2902,20 @@ export default function Home() {
         <div className="common-chat-header">
           <div>
             <div className="common-chat-title">Общий чат</div>
-            <div className="common-chat-subtitle">Сообщения видят все пользователи</div>
+            <div className="common-chat-subtitle">
+              {commonChatProfile
+                ? `Вы пишете как ${commonChatProfile.displayName}`
+                : "Сообщения видят все пользователи"}
+            </div>
           </div>
+          <button
+            type="button"
+            className="common-chat-profile-toggle"
+            onClick={() => void openCommonChatProfile()}
+            aria-expanded={isCommonChatProfileOpen}
+          >
+            Профиль
+          </button>
           <button
             type="button"
             className="common-chat-close"
@@ -989,21 +2926,124 @@ export default function Home() {
           </button>
         </div>
 
+        {isCommonChatProfileOpen ? (
+          <div className="common-chat-profile">
+            <input
+              className="common-chat-input"
+              placeholder="Имя в общем чате"
+              value={profileNameInput}
+              onChange={(event) => setProfileNameInput(event.target.value)}
+              maxLength={32}
+            />
+            <div className="common-chat-colors" role="radiogroup" aria-label="Цвет">
+              {commonChatColors.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  role="radio"
+                  aria-checked={profileColorInput === color}
+                  aria-label={color}
+                  className={`common-chat-color ${profileColorInput === color ? "active" : ""}`}
+                  style={{ background: color }}
+                  onClick={() => setProfileColorInput(color)}
+                />
+              ))}
+            </div>
+            <button
+              type="button"
+              className="common-chat-send"
+              onClick={() => void saveCommonChatProfile()}
+              disabled={isProfileSaving || !profileNameInput.trim()}
+            >
+              {isProfileSaving ? "..." : "Сохранить"}
+            </button>
+          </div>
+        ) : null}
+
+        {commonChatPinned.length ? (
+          <div className="common-chat-pinned">
+            {commonChatPinned.map((message) => (
+              <div key={message.id} className="common-chat-pinned-item">
+                <span className="common-chat-sender" style={{ color: message.senderColor }}>
+                  {message.senderName}:
+                </span>{" "}
+                {message.text}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
         <div className="common-chat-list">
           {isCommonChatLoading ? (
             <div className="common-chat-muted">Загрузка...</div>
           ) : commonChatMessages.length ? (
             commonChatMessages.map((message) => {
-              const isOwn = message.senderId === commonChatSenderId;
+              const isOwn = message.senderId === currentUser?.id;
+              const isAdmin = currentUser?.role === "admin";
+              const canChange = !message.deletedAt && canChangeCommonChatMessage(message);
+              const isMuted = commonChatMutes.some((mute) => mute.userId === message.senderId);
               return (
                 <div
                   key={message.id}
-                  className={`common-chat-item ${isOwn ? "own" : ""}`}
+                  className={`common-chat-item ${isOwn ? "own" : ""} ${
+                    message.deletedAt ? "deleted" : ""
+                  } ${message.pinnedAt ? "pinned" : ""}`}
                 >
-                  <div className="common-chat-meta">
-                    {isOwn ? "Вы" : "Участник"} · {formatTimestamp(message.createdAt)}
+                  <span
+                    className="common-chat-avatar"
+                    style={{ background: message.senderColor }}
+                    aria-hidden="true"
+                  >
+                    {getInitials(message.senderName)}
+                  </span>
+                  <div className="common-chat-body">
+                    <div className="common-chat-meta">
+                      <span className="common-chat-sender" style={{ color: message.senderColor }}>
+                        {message.senderName}
+                      </span>
+                      {message.isBot ? <span className="common-chat-bot-badge">бот</span> : null}
+                      {isOwn ? " (вы)" : ""} · {formatTimestamp(message.createdAt)}
+                      {message.editedAt && !message.deletedAt ? " · изменено" : ""}
+                      {message.pinnedAt ? " · закреплено" : ""}
+                      {isMuted ? " · без права писать" : ""}
+                    </div>
+                    <div className="common-chat-text">
+                      {message.deletedAt
+                        ? message.deletedBy === "moderator"
+                          ? "Сообщение удалено администратором."
+                          : "Сообщение удалено."
+                        : message.text}
+                    </div>
+                    {!message.deletedAt && (canChange || isAdmin) ? (
+                      <div className="common-chat-actions">
+                        {canChange ? (
+                          <button type="button" onClick={() => editCommonChatMessage(message)}>
+                            Изменить
+                          </button>
+                        ) : null}
+                        {isAdmin ? (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              void updateCommonChatMessage(message, "PATCH", {
+                                pinned: !message.pinnedAt
+                              })
+                            }
+                          >
+                            {message.pinnedAt ? "Открепить" : "Закрепить"}
+                          </button>
+                        ) : null}
+                        {isAdmin && !isOwn && !message.isBot ? (
+                          <button type="button" onClick={() => void toggleCommonChatMute(message)}>
+                            {isMuted ? "Разрешить писать" : "Запретить писать"}
+                          </button>
+                        ) : null}
+                        <button type="button" onClick={() => deleteCommonChatMessage(message)}>
+                          Удалить
+                        </button>
+                      </div>
+                    ) : null}
                   </div>
-                  <div className="common-chat-text">{message.text}</div>
                 </div>
               );
             })
@@ -1016,7 +3056,11 @@ export default function Home() {
         <div className="common-chat-form">
           <input
             className="common-chat-input"
-            placeholder="Написать сообщение..."
+            placeholder={
+              commonChatBots.length
+                ? `Сообщение, ${commonChatBots.map((bot) => `@${bot}`).join(" или ")} — спросить ИИ`
+                : "Написать сообщение..."
+            }
             value={commonChatInput}
             onChange={(event) => setCommonChatInput(event.target.value)}
             onKeyDown={handleCommonChatKeyDown}
@@ -0,0 +1,220 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+
+type UserRow = {
+  id: string;
+  username: string;
+  role: "admin" | "member";
+  createdAt: string;
+};
+
+type LoginAuditEntry = {
+  id: number;
+  username: string;
+  ip: string;
+  reason: string;
+  createdAt: string;
+};
+
+const AUDIT_REASON_LABELS: Record<string, string> = {
+  bad_password: "неверный пароль",
+  unknown_user: "нет такого пользователя",
+  bad_current_password: "неверный текущий пароль при смене",
+  locked: "попытка во время блокировки"
+};
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [auditEntries, setAuditEntries] = useState<LoginAuditEntry[]>([]);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch("/api/users", { cache: "no-store" });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось загрузить пользователей.");
+      }
+      setUsers(payload.users || []);
+      setCurrentUserId(payload.currentUserId ?? null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    }
+  };
+
+  const loadAudit = async () => {
+    const response = await fetch("/api/login-audit?limit=50", { cache: "no-store" });
+    const payload = await response.json().catch(() => ({}));
+    if (response.ok) {
+      setAuditEntries(payload.entries || []);
+    }
+  };
+
+  useEffect(() => {
+    void loadUsers();
+    void loadAudit();
+  }, []);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!username.trim() || !password) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          username: username.trim(),
+          password,
+          role: isAdmin ? "admin" : "member"
+        })
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Не удалось создать пользователя.");
+      }
+
+      setUsername("");
+      setPassword("");
+      setIsAdmin(false);
+      await loadUsers();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Неизвестная ошибка.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async (user: UserRow) => {
+    let currentPassword: string | null = null;
+    if (user.id === currentUserId) {
+      currentPassword = window.prompt("Текущий пароль");
+      if (!currentPassword) return;
+    }
+    const nextPassword = window.prompt(`Новый пароль для ${user.username}`);
+    if (!nextPassword) return;
+
+    setError(null);
+    const response = await fetch("/api/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: user.id, password: nextPassword, currentPassword })
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(payload?.error || "Не удалось сменить пароль.");
+    }
+  };
+
+  const handleDelete = async (user: UserRow) => {
+    if (!window.confirm(`Удалить ${user.username} вместе со всеми чатами?`)) return;
+
+    setError(null);
+    const response = await fetch(`/api/users?id=${encodeURIComponent(user.id)}`, {
+      method: "DELETE"
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setError(payload?.error || "Не удалось удалить пользователя.");
+      return;
+    }
+    await loadUsers();
+  };
+
+  return (
+    <main className="auth-page">
+      <div className="auth-card users-card">
+        <h1>Пользователи</h1>
+        <p>
+          <a href="/" className="user-link">
+            ← К чатам
+          </a>
+        </p>
+
+        <ul className="users-list">
+          {users.map((user) => (
+            <li key={user.id} className="users-row">
+              <span className="user-name">{user.username}</span>
+              <span className="users-role">{user.role === "admin" ? "админ" : "участник"}</span>
+              <button
+                type="button"
+                className="link-button sidebar-button"
+                onClick={() => void handleResetPassword(user)}
+              >
+                Сменить пароль
+              </button>
+              <button
+                type="button"
+                className="link-button sidebar-button"
+                onClick={() => void handleDelete(user)}
+              >
+                Удалить
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleCreate} className="auth-form">
+          <input
+            type="text"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            placeholder="Логин"
+            autoComplete="off"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            placeholder="Пароль (не короче 8 символов)"
+            autoComplete="new-password"
+          />
+          <label className="users-checkbox">
+            <input
+              type="checkbox"
+              checked={isAdmin}
+              onChange={(event) => setIsAdmin(event.target.checked)}
+            />
+            Администратор
+          </label>
+          <button type="submit" disabled={isSubmitting || !username.trim() || !password}>
+            {isSubmitting ? "Создание..." : "Добавить пользователя"}
+          </button>
+        </form>
+
+        {error ? <div className="error">{error}</div> : null}
+
+        <h2 className="users-subtitle">Неудачные входы</h2>
+        {auditEntries.length === 0 ? (
+          <p>Записей нет.</p>
+        ) : (
+          <ul className="users-list audit-list">
+            {auditEntries.map((entry) => (
+              <li key={entry.id} className="users-row">
+                <span className="users-role">
+                  {new Date(entry.createdAt).toLocaleString("ru-RU")}
+                </span>
+                <span className="user-name">{entry.username}</span>
+                <span className="users-role">{entry.ip}</span>
+                <span className="users-role">
+                  {AUDIT_REASON_LABELS[entry.reason] ?? entry.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
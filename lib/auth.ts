@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import {
+  assignOrphanedRecords,
+  countUsers,
+  createUser,
+  getSessionUser,
+  type AuthUser
+} from "@/lib/db";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  createSessionToken,
+  verifySessionToken
+} from "@/lib/session-token";
+
+export type { AuthUser } from "@/lib/db";
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_COST = 16384;
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString("base64url");
+  const hash = crypto
+    .scryptSync(password, salt, SCRYPT_KEY_LENGTH, { N: SCRYPT_COST })
+    .toString("base64url");
+  return `scrypt$${SCRYPT_COST}$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [scheme, cost, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = crypto.scryptSync(password, salt, expected.length, { N: Number(cost) });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+let dummyPasswordHash: string | null = null;
+
+/**
+ * A hash of a random password, checked when the username is unknown so that
+ * the response time does not reveal which accounts exist.
+ */
+export function getDummyPasswordHash() {
+  dummyPasswordHash ??= hashPassword(crypto.randomBytes(16).toString("base64url"));
+  return dummyPasswordHash;
+}
+
+/** Session ids are stored hashed so a leaked database cannot be replayed. */
+export function hashSessionId(sessionId: string) {
+  return crypto.createHash("sha256").update(sessionId).digest("hex");
+}
+
+function readCookie(req: Request, name: string) {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(rest.join("="));
+    }
+  }
+
+  return null;
+}
+
+export function getRequestSessionId(req: Request) {
+  return verifySessionToken(readCookie(req, SESSION_COOKIE));
+}
+
+export function getRequestUser(req: Request): AuthUser | null {
+  const sessionId = getRequestSessionId(req);
+  if (!sessionId) return null;
+  return getSessionUser(hashSessionId(sessionId));
+}
+
+/**
+ * Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD (or the legacy
+ * APP_PASSWORD) and hands it every chat created before accounts existed.
+ */
+export function ensureBootstrapAdmin() {
+  if (countUsers() > 0) return;
+
+  const password = (process.env.ADMIN_PASSWORD ?? process.env.APP_PASSWORD ?? "").trim();
+  if (!password) return;
+
+  const username = process.env.ADMIN_USERNAME?.trim() || "admin";
+  const admin = createUser(username, hashPassword(password), "admin");
+  assignOrphanedRecords(admin.id);
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+export function forbiddenResponse() {
+  return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+}
+
+export function isSecureRequest(req: Request) {
+  const forwardedProto = req.headers.get("x-forwarded-proto");
+  if (forwardedProto) {
+    return forwardedProto.split(",")[0]?.trim() === "https";
+  }
+
+  try {
+    return new URL(req.url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function setSessionCookie(response: NextResponse, req: Request, sessionId: string) {
+  response.cookies.set({
+    name: SESSION_COOKIE,
+    value: createSessionToken(sessionId),
+    httpOnly: true,
+    secure: isSecureRequest(req),
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS
+  });
+}
+
+export function clearSessionCookie(response: NextResponse, req: Request) {
+  response.cookies.set({
+    name: SESSION_COOKIE,
+    value: "",
+    httpOnly: true,
+    secure: isSecureRequest(req),
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0
+  });
+}
+
+export function createSessionId() {
+  return crypto.randomBytes(32).toString("base64url");
+}
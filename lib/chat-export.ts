@@ -0,0 +1,169 @@
+import type { ChatSummary, StoredAttachment, StoredMessage } from "@/lib/db";
+
+export type ExportFormat = "md" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "json", "html"];
+export const EXPORT_VERSION = 1;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8"
+};
+
+const ROLE_LABELS: Record<StoredMessage["role"], string> = {
+  user: "Вы",
+  assistant: "Ассистент"
+};
+
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  const format = (value ?? "md").toLowerCase();
+  return EXPORT_FORMATS.includes(format as ExportFormat) ? (format as ExportFormat) : null;
+}
+
+export function getExportMimeType(format: ExportFormat) {
+  return MIME_TYPES[format];
+}
+
+export function getExportFileName(chat: ChatSummary, format: ExportFormat) {
+  const base = chat.title
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${base || "chat"}-${chat.id.slice(0, 8)}.${format}`;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeAttachment(attachment: StoredAttachment) {
+  return `${attachment.name} (${attachment.mimeType}, ${formatSize(attachment.size)})`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function toJson(chat: ChatSummary, messages: StoredMessage[]) {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chat: {
+        id: chat.id,
+        space: chat.space,
+        title: chat.title,
+        settings: chat.settings,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        text: message.text,
+        createdAt: message.createdAt,
+        attachments: message.attachments.map((attachment) => ({
+          id: attachment.id,
+          kind: attachment.kind,
+          name: attachment.name,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+          transcript: attachment.transcript,
+          createdAt: attachment.createdAt
+        })),
+        ...(message.toolCalls.length > 0 ? { toolCalls: message.toolCalls } : {}),
+        ...(message.sources.length > 0 ? { sources: message.sources } : {})
+      }))
+    },
+    null,
+    2
+  );
+}
+
+function toMarkdown(chat: ChatSummary, messages: StoredMessage[]) {
+  const lines = [
+    `# ${chat.title}`,
+    "",
+    `- Раздел: ${chat.space}`,
+    `- Создан: ${chat.createdAt}`,
+    `- Обновлён: ${chat.updatedAt}`
+  ];
+
+  if (chat.settings.provider) {
+    lines.push(
+      `- Модель: ${chat.settings.provider}${chat.settings.model ? ` / ${chat.settings.model}` : ""}`
+    );
+  }
+
+  for (const message of messages) {
+    lines.push("", `## ${ROLE_LABELS[message.role]} · ${message.createdAt}`, "");
+    if (message.text) {
+      lines.push(message.text);
+    }
+    if (message.attachments.length) {
+      lines.push("", "Вложения:");
+      message.attachments.forEach((attachment) => {
+        lines.push(`- ${describeAttachment(attachment)}`);
+      });
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function toHtml(chat: ChatSummary, messages: StoredMessage[]) {
+  const items = messages
+    .map((message) => {
+      const attachments = message.attachments.length
+        ? `<ul class="attachments">${message.attachments
+            .map((attachment) => `<li>${escapeHtml(describeAttachment(attachment))}</li>`)
+            .join("")}</ul>`
+        : "";
+      return `<section class="message ${message.role}">
+<div class="meta">${ROLE_LABELS[message.role]} · <time datetime="${escapeHtml(message.createdAt)}">${escapeHtml(message.createdAt)}</time></div>
+<div class="text">${escapeHtml(message.text)}</div>
+${attachments}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 820px; margin: 32px auto; padding: 0 16px; color: #1b1f24; }
+.message { margin: 16px 0; padding: 12px 16px; border-radius: 12px; background: #f3f5f8; }
+.message.user { background: #e3f6fb; }
+.meta { font-size: 12px; color: #5b6470; margin-bottom: 6px; }
+.text { white-space: pre-wrap; line-height: 1.5; }
+.attachments { font-size: 13px; color: #5b6470; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(chat.title)}</h1>
+<p class="meta">Раздел ${chat.space} · создан ${escapeHtml(chat.createdAt)} · обновлён ${escapeHtml(chat.updatedAt)}</p>
+${items}
+</body>
+</html>
+`;
+}
+
+export function buildChatExport(
+  chat: ChatSummary,
+  messages: StoredMessage[],
+  format: ExportFormat
+) {
+  if (format === "json") return toJson(chat, messages);
+  if (format === "html") return toHtml(chat, messages);
+  return toMarkdown(chat, messages);
+}
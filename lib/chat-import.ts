@@ -0,0 +1,303 @@
+import type { Readable } from "stream";
+import JSZip from "jszip";
+import { EMPTY_CHAT_SETTINGS, type ChatSettings } from "@/lib/db";
+import { htmlToText } from "@/lib/document-text";
+import { parseChatSettings } from "@/lib/providers";
+
+export type ImportSource = "chatgpt" | "gemini" | "native";
+
+export type ImportedMessage = {
+  role: "user" | "assistant";
+  text: string;
+  createdAt: string;
+};
+
+export type ImportedConversation = {
+  source: ImportSource;
+  /** Stable id in the source system, used to detect repeated imports. */
+  sourceId: string;
+  title: string;
+  settings: ChatSettings;
+  createdAt: string;
+  updatedAt: string;
+  messages: ImportedMessage[];
+};
+
+/** Gemini Takeout has no conversation ids; prompts closer than this are grouped. */
+const GEMINI_SESSION_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * A small archive can unpack to gigabytes, so entries are counted and read
+ * with a running byte count instead of trusting the upload size.
+ */
+const MAX_ZIP_ENTRIES = 10000;
+const MAX_ZIP_ENTRY_BYTES = 256 * 1024 * 1024;
+const MAX_ZIP_TOTAL_BYTES = 512 * 1024 * 1024;
+
+export class ImportFormatError extends Error {}
+
+function fromUnixSeconds(value: unknown, fallback: string) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? new Date(value * 1000).toISOString()
+    : fallback;
+}
+
+function fromIsoString(value: unknown, fallback: string) {
+  if (typeof value !== "string") return fallback;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? fallback : new Date(time).toISOString();
+}
+
+function isChatGptExport(data: unknown): data is any[] {
+  return (
+    Array.isArray(data) &&
+    data.some((item) => item && typeof item === "object" && "mapping" in item)
+  );
+}
+
+function isGeminiActivity(data: unknown): data is any[] {
+  return (
+    Array.isArray(data) &&
+    data.some(
+      (item) =>
+        item &&
+        typeof item === "object" &&
+        typeof item.header === "string" &&
+        /gemini|bard/i.test(item.header)
+    )
+  );
+}
+
+function isNativeExport(data: unknown): data is { chat: any; messages: any[] } {
+  return Boolean(
+    data &&
+      typeof data === "object" &&
+      "chat" in data &&
+      Array.isArray((data as { messages?: unknown }).messages)
+  );
+}
+
+function readChatGptText(message: any) {
+  const parts = message?.content?.parts;
+  if (!Array.isArray(parts)) {
+    return typeof message?.content?.text === "string" ? message.content.text : "";
+  }
+  return parts
+    .filter((part: unknown): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+}
+
+/** Walks from current_node up to the root so only the visible branch is kept. */
+function parseChatGptConversation(item: any): ImportedConversation {
+  const createdAt = fromUnixSeconds(item.create_time, new Date().toISOString());
+  const mapping = item.mapping ?? {};
+  const nodeIds: string[] = [];
+  const visited = new Set<string>();
+  let nodeId: string | null = item.current_node ?? null;
+
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    nodeIds.unshift(nodeId);
+    nodeId = mapping[nodeId].parent ?? null;
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const id of nodeIds) {
+    const message = mapping[id]?.message;
+    const role = message?.author?.role;
+    if (role !== "user" && role !== "assistant") continue;
+    if (message?.metadata?.is_visually_hidden_from_conversation) continue;
+
+    const text = readChatGptText(message);
+    if (!text) continue;
+
+    messages.push({ role, text, createdAt: fromUnixSeconds(message.create_time, createdAt) });
+  }
+
+  return {
+    source: "chatgpt",
+    sourceId: String(item.conversation_id ?? item.id ?? `${item.title}:${item.create_time}`),
+    title: typeof item.title === "string" && item.title.trim() ? item.title.trim() : "Без названия",
+    settings: { ...EMPTY_CHAT_SETTINGS, provider: "openai" },
+    createdAt,
+    updatedAt: fromUnixSeconds(item.update_time, createdAt),
+    messages
+  };
+}
+
+function parseGeminiActivity(items: any[]): ImportedConversation[] {
+  const entries = items
+    .filter((item) => typeof item?.title === "string" && item.time)
+    .map((item) => ({
+      time: fromIsoString(item.time, new Date().toISOString()),
+      prompt: item.title.replace(/^(Prompted|Запрос:?)\s*/i, "").trim(),
+      response: htmlToText(
+        (Array.isArray(item.safeHtmlItem) ? item.safeHtmlItem : [])
+          .map((entry: any) => (typeof entry?.html === "string" ? entry.html : ""))
+          .join("\n")
+      )
+    }))
+    .filter((entry) => entry.prompt)
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  const conversations: ImportedConversation[] = [];
+  let current: ImportedConversation | null = null;
+
+  for (const entry of entries) {
+    const gap = current ? Date.parse(entry.time) - Date.parse(current.updatedAt) : Infinity;
+    if (!current || gap > GEMINI_SESSION_GAP_MS) {
+      current = {
+        source: "gemini",
+        sourceId: entry.time,
+        title: entry.prompt.replace(/\s+/g, " ").slice(0, 60),
+        settings: { ...EMPTY_CHAT_SETTINGS, provider: "gemini" },
+        createdAt: entry.time,
+        updatedAt: entry.time,
+        messages: []
+      };
+      conversations.push(current);
+    }
+
+    current.messages.push({ role: "user", text: entry.prompt, createdAt: entry.time });
+    if (entry.response) {
+      current.messages.push({ role: "assistant", text: entry.response, createdAt: entry.time });
+    }
+    current.updatedAt = entry.time;
+  }
+
+  return conversations;
+}
+
+function parseNativeExport(data: { chat: any; messages: any[] }): ImportedConversation {
+  const now = new Date().toISOString();
+  const createdAt = fromIsoString(data.chat?.createdAt, now);
+  const parsedSettings = parseChatSettings(data.chat?.settings ?? {});
+
+  return {
+    source: "native",
+    sourceId: String(data.chat?.id ?? createdAt),
+    title:
+      typeof data.chat?.title === "string" && data.chat.title.trim()
+        ? data.chat.title.trim()
+        : "Без названия",
+    settings:
+      parsedSettings.error === undefined ? parsedSettings.settings : { ...EMPTY_CHAT_SETTINGS },
+    createdAt,
+    updatedAt: fromIsoString(data.chat?.updatedAt, createdAt),
+    messages: data.messages
+      .filter(
+        (message) =>
+          (message?.role === "user" || message?.role === "assistant") &&
+          typeof message?.text === "string" &&
+          message.text.trim()
+      )
+      .map((message) => ({
+        role: message.role,
+        text: message.text,
+        createdAt: fromIsoString(message.createdAt, createdAt)
+      }))
+  };
+}
+
+function parseJsonDocument(data: unknown): ImportedConversation[] {
+  if (isChatGptExport(data)) {
+    return data.filter((item) => item?.mapping).map(parseChatGptConversation);
+  }
+  if (isGeminiActivity(data)) {
+    return parseGeminiActivity(data);
+  }
+  if (isNativeExport(data)) {
+    return [parseNativeExport(data)];
+  }
+  if (Array.isArray(data) && data.every(isNativeExport)) {
+    return data.map(parseNativeExport);
+  }
+  return [];
+}
+
+function parseJsonText(text: string) {
+  try {
+    return JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new ImportFormatError("Файл не является корректным JSON.");
+  }
+}
+
+/** Unpacks an entry, giving up as soon as it grows past `limit` bytes. */
+async function readZipEntry(file: JSZip.JSZipObject, limit: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // JSZip's stream is a readable-stream Readable, which its typings leave out.
+    const stream = file.nodeStream("nodebuffer") as Readable;
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          // Errors JSZip raises for output still in flight land in the settled promise.
+          stream.destroy();
+          reject(new ImportFormatError("Архив слишком большой после распаковки."));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)))
+      .resume();
+  });
+}
+
+/**
+ * Accepts a JSON file or a zip archive (ChatGPT export, Google Takeout or a
+ * space export from this app) and returns every conversation found in it.
+ */
+export async function parseImportFile(name: string, data: Buffer) {
+  const isZip = data.subarray(0, 2).toString("latin1") === "PK";
+  if (!isZip) {
+    const conversations = parseJsonDocument(parseJsonText(data.toString("utf8")));
+    if (conversations.length === 0) {
+      throw new ImportFormatError(`Не удалось распознать формат файла ${name}.`);
+    }
+    return conversations;
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new ImportFormatError("Не удалось прочитать zip-архив.");
+  }
+
+  if (Object.keys(zip.files).length > MAX_ZIP_ENTRIES) {
+    throw new ImportFormatError(`В архиве больше ${MAX_ZIP_ENTRIES} файлов.`);
+  }
+
+  const conversations: ImportedConversation[] = [];
+  let remainingBytes = MAX_ZIP_TOTAL_BYTES;
+  const jsonFiles = Object.values(zip.files).filter(
+    (file) => !file.dir && file.name.toLowerCase().endsWith(".json")
+  );
+
+  for (const file of jsonFiles) {
+    const baseName = file.name.split("/").pop()?.toLowerCase() ?? "";
+    const isKnownName =
+      baseName === "conversations.json" ||
+      baseName === "myactivity.json" ||
+      !file.name.includes("/");
+    if (!isKnownName) continue;
+
+    const content = await readZipEntry(file, Math.min(MAX_ZIP_ENTRY_BYTES, remainingBytes));
+    remainingBytes -= content.length;
+    try {
+      conversations.push(...parseJsonDocument(JSON.parse(content.toString("utf8"))));
+    } catch {
+      // Unrelated JSON files in Takeout archives are ignored.
+    }
+  }
+
+  if (conversations.length === 0) {
+    throw new ImportFormatError("В архиве не найдено поддерживаемых диалогов.");
+  }
+  return conversations;
+}
@@ -0,0 +1,162 @@
+import {
+  addCommonChatMessage,
+  listCommonChatMessages,
+  recordUsage,
+  type AuthUser,
+  type CommonChatMessage
+} from "@/lib/db";
+import { calculateCost } from "@/lib/pricing";
+import { resolveGenerationSettings, type ProviderAdapter } from "@/lib/providers";
+import { checkUsageQuota, formatQuotaExceeded } from "@/lib/quotas";
+
+type CommonChatBot = {
+  mention: string;
+  provider: ProviderAdapter;
+  model: string;
+  label: string;
+};
+
+/**
+ * Model replies belong to no space; they are billed to the account that
+ * asked and counted in the temporary space 4, whose caps cover them.
+ */
+const BOT_USAGE_SPACE = 4;
+const BOT_CONTEXT_MESSAGES = 30;
+const BOT_MAX_OUTPUT_TOKENS = 1024;
+const MAX_MENTIONS_PER_MESSAGE = 2;
+
+const DEFAULT_BOTS: Record<string, { provider: string; model?: string }> = {
+  gpt: { provider: "openai" },
+  gemini: { provider: "gemini" },
+  mock: { provider: "mock" }
+};
+
+const BOT_INSTRUCTIONS =
+  "Ты — ассистент в общем чате команды. Тебе передана недавняя переписка в формате «Имя: сообщение». " +
+  "Ответь на последнее обращение к тебе, учитывая обсуждение. Пиши кратко и по делу, на языке собеседника, " +
+  "без приветствий и без подписи.";
+
+let bots: CommonChatBot[] | null = null;
+
+/**
+ * COMMON_CHAT_BOTS maps mentions to providers, e.g.
+ * `{"gpt":{"provider":"openai","model":"gpt-5.2"},"claude":{"provider":"anthropic"}}`.
+ * Without it `@gpt` and `@gemini` use the default OpenAI and Gemini models
+ * (`@mock` in mock mode). Bots whose provider is not configured are skipped.
+ */
+function getBots(): CommonChatBot[] {
+  if (bots) return bots;
+
+  let config = DEFAULT_BOTS;
+  try {
+    if (process.env.COMMON_CHAT_BOTS) {
+      config = JSON.parse(process.env.COMMON_CHAT_BOTS);
+    }
+  } catch {
+    // Invalid COMMON_CHAT_BOTS falls back to the defaults.
+  }
+
+  bots = [];
+  for (const [mention, value] of Object.entries(config)) {
+    if (!/^[a-z0-9_-]{2,20}$/i.test(mention) || !value || typeof value !== "object") continue;
+    const generation = resolveGenerationSettings({
+      provider: typeof value.provider === "string" ? value.provider : null,
+      model: typeof value.model === "string" ? value.model : null,
+      temperature: null,
+      maxOutputTokens: BOT_MAX_OUTPUT_TOKENS,
+      reasoningEffort: null,
+      systemPrompt: null
+    });
+    if (!generation?.provider.isConfigured()) continue;
+    bots.push({
+      mention: mention.toLowerCase(),
+      provider: generation.provider,
+      model: generation.model,
+      label: `${generation.provider.label} (${generation.model})`
+    });
+  }
+  return bots;
+}
+
+export function listCommonChatBotMentions() {
+  return getBots().map((bot) => bot.mention);
+}
+
+/** Reserved so that no participant can take a bot's name. */
+export function listCommonChatBotLabels() {
+  return getBots().map((bot) => bot.label);
+}
+
+/** Bots addressed as `@mention` in `text`, in order of appearance. */
+export function findMentionedBots(text: string) {
+  const mentioned: CommonChatBot[] = [];
+  for (const match of text.matchAll(/(?:^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_-]+)/gu)) {
+    const bot = getBots().find((item) => item.mention === match[1].toLowerCase());
+    if (bot && !mentioned.includes(bot)) mentioned.push(bot);
+  }
+  return mentioned.slice(0, MAX_MENTIONS_PER_MESSAGE);
+}
+
+/** The account's spending caps, checked before a model is asked on its behalf. */
+export function getBotQuotaError(user: AuthUser) {
+  const quota = checkUsageQuota(user.id, BOT_USAGE_SPACE);
+  return quota.exceeded ? formatQuotaExceeded(quota.exceeded) : null;
+}
+
+function formatTranscript(messages: CommonChatMessage[]) {
+  return messages
+    .map((message) => `${message.senderName}${message.isBot ? " [бот]" : ""}: ${message.text}`)
+    .join("\n\n");
+}
+
+/**
+ * Asks the model with the recent conversation up to `trigger` and posts the
+ * answer as a bot message. Failures are posted too, so the team sees why
+ * nothing came back.
+ */
+export async function replyAsBot(bot: CommonChatBot, user: AuthUser, trigger: CommonChatMessage) {
+  const history = listCommonChatMessages(BOT_CONTEXT_MESSAGES).filter(
+    (message) => !message.deletedAt && message.createdAt <= trigger.createdAt
+  );
+
+  let text: string;
+  try {
+    const payload = bot.provider.buildRequest({
+      model: bot.model,
+      instructions: `${BOT_INSTRUCTIONS} К тебе обращаются как @${bot.mention}.`,
+      maxOutputTokens: BOT_MAX_OUTPUT_TOKENS,
+      reasoningEffort: bot.provider.supportsReasoningEffort(bot.model) ? "low" : null,
+      messages: [
+        {
+          role: "user",
+          parts: [
+            {
+              type: "text",
+              text: `${formatTranscript(history)}\n\nОтветь на сообщение ${trigger.senderName}.`
+            }
+          ]
+        }
+      ]
+    });
+    const response = await bot.provider.call(payload);
+    const usage = bot.provider.extractUsage(response);
+    if (usage) {
+      recordUsage({
+        userId: user.id,
+        space: BOT_USAGE_SPACE,
+        chatId: null,
+        messageId: null,
+        kind: "common_chat",
+        provider: bot.provider.id,
+        model: bot.model,
+        ...usage,
+        cost: calculateCost(bot.provider.id, bot.model, usage)
+      });
+    }
+    text = bot.provider.extractText(response).trim() || "Модель не вернула текстовый ответ.";
+  } catch (error) {
+    text = `Не удалось получить ответ: ${bot.provider.mapError(error)}`;
+  }
+
+  addCommonChatMessage(`bot:${bot.mention}`, text.slice(0, 8000), { botLabel: bot.label });
+}
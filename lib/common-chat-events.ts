@@ -0,0 +1,39 @@
+import type { CommonChatMessage, CommonChatProfile } from "@/lib/db";
+
+export type CommonChatEvent =
+  | { type: "message"; message: CommonChatMessage }
+  | { type: "profile"; profile: CommonChatProfile };
+
+type Listener = (event: CommonChatEvent) => void;
+
+/**
+ * Kept on globalThis so every route bundle (and dev hot reloads) share one set
+ * of listeners. Only reaches clients of this server process; several
+ * instances behind a load balancer would need a shared broker instead.
+ */
+const globalListeners = globalThis as typeof globalThis & {
+  commonChatListeners?: Set<Listener>;
+};
+
+function getListeners() {
+  globalListeners.commonChatListeners ??= new Set();
+  return globalListeners.commonChatListeners;
+}
+
+export function subscribeCommonChat(listener: Listener) {
+  const listeners = getListeners();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function publishCommonChatEvent(event: CommonChatEvent) {
+  for (const listener of getListeners()) {
+    try {
+      listener(event);
+    } catch {
+      // A broken connection must not stop delivery to the others.
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/** Avatar colors a participant can pick; the default is derived from the user id. */
+export const COMMON_CHAT_COLORS = [
+  "#6ee7f9",
+  "#a78bfa",
+  "#f472b6",
+  "#fb923c",
+  "#facc15",
+  "#4ade80",
+  "#2dd4bf",
+  "#60a5fa",
+  "#f87171",
+  "#c084fc"
+];
+
+export const DISPLAY_NAME_MIN_LENGTH = 2;
+export const DISPLAY_NAME_MAX_LENGTH = 32;
+
+/** Avatar color of model replies, outside the palette participants pick from. */
+export const COMMON_CHAT_BOT_COLOR = "#e2e8f0";
+
+/** Shown for messages whose author no longer has an account. */
+export const FORMER_PARTICIPANT_NAME = "Бывший участник";
+
+export function getDefaultCommonChatColor(userId: string) {
+  let hash = 0;
+  for (let index = 0; index < userId.length; index += 1) {
+    hash = (hash * 31 + userId.charCodeAt(index)) >>> 0;
+  }
+  return COMMON_CHAT_COLORS[hash % COMMON_CHAT_COLORS.length];
+}
+
+/** Collapses whitespace and strips control and bidi characters that could disguise a name. */
+export function normalizeDisplayName(value: string) {
+  return value
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2066-\u2069]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Case-insensitive key used to keep display names unique. */
+export function getDisplayNameKey(value: string) {
+  return normalizeDisplayName(value).toLocaleLowerCase("ru-RU");
+}
+
+function parsePositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** How long authors may edit or delete their own messages. */
+export const COMMON_CHAT_EDIT_WINDOW_MS =
+  parsePositiveNumber(process.env.COMMON_CHAT_EDIT_WINDOW_MINUTES, 15) * 60 * 1000;
+
+/** Messages one account may post per minute. */
+export const COMMON_CHAT_MESSAGES_PER_MINUTE = Math.floor(
+  parsePositiveNumber(process.env.COMMON_CHAT_MESSAGES_PER_MINUTE, 10)
+);
+
+export function isWithinEditWindow(createdAt: string, now = Date.now()) {
+  return now - Date.parse(createdAt) < COMMON_CHAT_EDIT_WINDOW_MS;
+}
+
+/**
+ * Seconds until `postTimes` (the account's messages in the last minute,
+ * oldest first) leaves room for another one, or 0 when it may post now.
+ */
+export function getCommonChatRetryAfter(postTimes: string[], now = Date.now()) {
+  if (postTimes.length < COMMON_CHAT_MESSAGES_PER_MINUTE) return 0;
+  const oldest = Date.parse(postTimes[postTimes.length - COMMON_CHAT_MESSAGES_PER_MINUTE]);
+  return Math.max(1, Math.ceil((oldest + 60 * 1000 - now) / 1000));
+}
@@ -0,0 +1,213 @@
+import { listChatSummaries, saveChatSummary } from "@/lib/db";
+import type {
+  ProviderAdapter,
+  ProviderMessage,
+  ProviderMessagePart,
+  TokenUsage
+} from "@/lib/providers";
+
+export type ContextMessage = {
+  /** Stored message id; ephemeral history has none and is never summarized. */
+  id?: string;
+  role: "user" | "assistant";
+  text: string;
+  attachmentNames: string[];
+  message: ProviderMessage;
+};
+
+export type FittedHistory = {
+  messages: ProviderMessage[];
+  summary: string | null;
+};
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 32000;
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1000;
+const FILE_BYTES_PER_TOKEN = 20;
+const SAFETY_MARGIN_TOKENS = 512;
+/**
+ * Share of the budget kept verbatim after a new summary is built, so the
+ * summary is not rebuilt on every message.
+ */
+const SUMMARY_KEEP_RATIO = 0.6;
+const SUMMARY_MAX_OUTPUT_TOKENS = 1024;
+const SUMMARY_MESSAGE_CHARS = 4000;
+
+const SUMMARY_INSTRUCTIONS =
+  "Ты сжимаешь начало переписки пользователя с ассистентом, чтобы её можно было продолжить без исходных сообщений. " +
+  "Сохрани факты, решения, договорённости, имена, числа, требования пользователя и открытые вопросы. " +
+  "Если дано предыдущее резюме, объедини его с новыми сообщениями. " +
+  "Пиши кратко, на языке переписки, не длиннее 300 слов. Ответь только текстом резюме.";
+
+function parseTokenBudget(value: string | undefined) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+export const CONTEXT_TOKEN_BUDGET = parseTokenBudget(process.env.CONTEXT_TOKEN_BUDGET);
+
+/** Non-Latin scripts (Cyrillic included) take roughly twice as many tokens per character. */
+export function estimateTextTokens(provider: ProviderAdapter, text: string) {
+  let ascii = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    if (text.charCodeAt(index) < 128) ascii += 1;
+  }
+  const other = text.length - ascii;
+  return Math.ceil(ascii / provider.charsPerToken + (other * 2) / provider.charsPerToken);
+}
+
+function estimatePartTokens(provider: ProviderAdapter, part: ProviderMessagePart) {
+  if (part.type === "text") return estimateTextTokens(provider, part.text);
+  if (part.type === "image") return IMAGE_TOKENS;
+  return Math.ceil((part.data.length * 0.75) / FILE_BYTES_PER_TOKEN);
+}
+
+export function estimateMessageTokens(provider: ProviderAdapter, message: ProviderMessage) {
+  return message.parts.reduce(
+    (total, part) => total + estimatePartTokens(provider, part),
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+/**
+ * Tokens left for history: the configured budget, capped by what the model
+ * window holds after the instructions, a summary, the new message and the reply.
+ */
+export function getHistoryBudget(
+  provider: ProviderAdapter,
+  request: {
+    model: string;
+    maxOutputTokens: number | null;
+    instructions: string | null;
+    current: ProviderMessage;
+  }
+) {
+  const available =
+    provider.contextWindow(request.model) -
+    (request.maxOutputTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS) -
+    estimateTextTokens(provider, request.instructions ?? "") -
+    estimateMessageTokens(provider, request.current) -
+    SUMMARY_MAX_OUTPUT_TOKENS -
+    SAFETY_MARGIN_TOKENS;
+  return Math.max(0, Math.min(CONTEXT_TOKEN_BUDGET, available));
+}
+
+/** Number of leading messages to drop so the rest fits into `budget`. */
+function countDropped(tokens: number[], budget: number) {
+  let total = 0;
+  for (let index = tokens.length - 1; index >= 0; index -= 1) {
+    total += tokens[index];
+    if (total > budget) return index + 1;
+  }
+  return 0;
+}
+
+function describeForSummary(message: ContextMessage) {
+  const label = message.role === "user" ? "Пользователь" : "Ассистент";
+  const text =
+    message.text.length > SUMMARY_MESSAGE_CHARS
+      ? `${message.text.slice(0, SUMMARY_MESSAGE_CHARS)}…`
+      : message.text;
+  const attachments = message.attachmentNames.length
+    ? `\n[Вложения: ${message.attachmentNames.join(", ")}]`
+    : "";
+  return `${label}: ${text}${attachments}`;
+}
+
+async function summarize(
+  provider: ProviderAdapter,
+  model: string,
+  previousSummary: string | null,
+  messages: ContextMessage[],
+  onUsage?: (usage: TokenUsage) => void
+) {
+  const sections = [
+    previousSummary ? `Предыдущее резюме:\n${previousSummary}` : "",
+    `Сообщения:\n${messages.map(describeForSummary).join("\n\n")}`
+  ].filter(Boolean);
+
+  const payload = provider.buildRequest({
+    model,
+    instructions: SUMMARY_INSTRUCTIONS,
+    maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+    reasoningEffort: provider.supportsReasoningEffort(model) ? "low" : null,
+    messages: [{ role: "user", parts: [{ type: "text", text: sections.join("\n\n") }] }]
+  });
+
+  try {
+    const response = await provider.call(payload);
+    const usage = provider.extractUsage(response);
+    if (usage) onUsage?.(usage);
+    return provider.extractText(response) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Trims history to the token budget. For stored chats the dropped turns are
+ * folded into a rolling summary saved per branch prefix and reused until the
+ * verbatim tail outgrows the budget again. A failed summarization falls back
+ * to plain truncation.
+ */
+export async function fitHistoryToBudget(options: {
+  provider: ProviderAdapter;
+  model: string;
+  chatId: string | null;
+  history: ContextMessage[];
+  budget: number;
+  /** Called with the tokens spent on building a new summary. */
+  onSummaryUsage?: (usage: TokenUsage) => void;
+}): Promise<FittedHistory> {
+  const { provider, model, chatId, history, budget, onSummaryUsage } = options;
+  const tokens = history.map((item) => estimateMessageTokens(provider, item.message));
+  const dropped = countDropped(tokens, budget);
+  const keepFrom = (index: number) => history.slice(index).map((item) => item.message);
+
+  if (dropped === 0) {
+    return { messages: keepFrom(0), summary: null };
+  }
+
+  const ids = history.map((item) => item.id ?? "");
+  if (!chatId || ids.some((id) => !id)) {
+    return { messages: keepFrom(dropped), summary: null };
+  }
+
+  const summaries = new Map(
+    listChatSummaries(chatId, ids).map((item) => [item.throughMessageId, item.summary])
+  );
+
+  // Reuse the earliest stored summary that already covers every dropped turn.
+  for (let index = dropped - 1; index < history.length; index += 1) {
+    const summary = summaries.get(ids[index]);
+    if (summary) {
+      return { messages: keepFrom(index + 1), summary };
+    }
+  }
+
+  const through = Math.max(dropped, countDropped(tokens, budget * SUMMARY_KEEP_RATIO)) - 1;
+  let base = -1;
+  for (let index = through - 1; index >= 0; index -= 1) {
+    if (summaries.has(ids[index])) {
+      base = index;
+      break;
+    }
+  }
+
+  const previousSummary = base >= 0 ? summaries.get(ids[base])! : null;
+  const summary = await summarize(
+    provider,
+    model,
+    previousSummary,
+    history.slice(base + 1, through + 1),
+    onSummaryUsage
+  );
+
+  if (!summary) {
+    return { messages: keepFrom(dropped), summary: previousSummary };
+  }
+
+  saveChatSummary(chatId, ids[through], summary);
+  return { messages: keepFrom(through + 1), summary };
+}
@@ -2,32 +2,253 @@ import Database from "better-sqlite3";
 import fs from "fs";
 import path from "path";
 import crypto from "crypto";
+import {
+  COMMON_CHAT_BOT_COLOR,
+  FORMER_PARTICIPANT_NAME,
+  getDefaultCommonChatColor
+} from "@/lib/common-chat";
+import { publishCommonChatEvent } from "@/lib/common-chat-events";
+
+export type ChatSettings = {
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  reasoningEffort: string | null;
+  systemPrompt: string | null;
+};
+
+export type UserRole = "admin" | "member";
+
+export type AuthUser = {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+};
+
+export type LoginThrottle = {
+  key: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil: string | null;
+};
+
+export type LoginAuditEntry = {
+  id: number;
+  username: string;
+  ip: string;
+  userAgent: string | null;
+  reason: string;
+  createdAt: string;
+};
 
 export type ChatSummary = {
   id: string;
+  userId: string | null;
   space: number;
   title: string;
+  settings: ChatSettings;
+  /** Last message of the branch the user is currently viewing. */
+  currentLeafId: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type AttachmentKind = "image" | "file" | "audio";
+
+export type StoredAttachment = {
+  id: string;
+  messageId: string;
+  chatId: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Speech-to-text result for voice messages. */
+  transcript: string | null;
+  createdAt: string;
+};
+
+export type NewAttachment = {
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+  transcript?: string | null;
+};
+
+/** Tool call made while generating an assistant message, with its result. */
+export type ToolCallRecord = {
+  name: string;
+  label: string;
+  arguments: Record<string, unknown>;
+  output: string;
+  isError: boolean;
+};
+
+/** Knowledge base excerpt given to the model for a reply; `index` is its [n] marker. */
+export type KnowledgeSource = {
+  index: number;
+  documentId: string;
+  name: string;
+  page: number | null;
+};
+
 export type StoredMessage = {
   id: string;
   chatId: string;
+  parentId: string | null;
   role: "user" | "assistant";
   text: string;
+  attachments: StoredAttachment[];
+  /** Tokens spent on generating an assistant message. */
+  usage: MessageUsage | null;
+  toolCalls: ToolCallRecord[];
+  sources: KnowledgeSource[];
+  createdAt: string;
+};
+
+export type UsageKind = "chat" | "summary" | "common_chat" | "transcription" | "embedding";
+
+export type MessageUsage = {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  /** USD; null when the model has no known price. */
+  cost: number | null;
+};
+
+export type UsageTotals = {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number;
+  requests: number;
+  /** Requests to models without a price, not included in `cost`. */
+  unpricedRequests: number;
+  unpricedInputTokens: number;
+  unpricedOutputTokens: number;
+};
+
+export type UsageFilter = {
+  userId?: string | null;
+  space?: number | null;
+  since?: string | null;
+};
+
+export type PromptPreset = {
+  id: string;
+  userId: string | null;
+  space: number;
+  title: string;
+  prompt: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SearchSnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+export type SearchResult = {
+  kind: "chat" | "message";
+  chatId: string;
+  chatTitle: string;
+  messageId: string | null;
+  role: "user" | "assistant" | null;
+  snippet: SearchSnippetPart[];
+  createdAt: string;
+};
+
+export type ChatContextSummary = {
+  /** Last message of the branch prefix covered by the summary. */
+  throughMessageId: string;
+  summary: string;
   createdAt: string;
 };
 
+export type KnowledgeDocument = {
+  id: string;
+  space: number;
+  /** Account that uploaded the document; each account has its own library per space. */
+  userId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  /** Engine and model the chunks were embedded with, e.g. `openai:text-embedding-3-small`. */
+  embeddingModel: string;
+  createdAt: string;
+};
+
+export type KnowledgeChunk = {
+  id: string;
+  documentId: string;
+  documentName: string;
+  page: number | null;
+  text: string;
+  embeddingModel: string;
+  embedding: Float32Array;
+  /**
+   * Hashed vector for searching while the chunk's own engine is unavailable;
+   * null for hashed documents and for chunks stored before it was kept.
+   */
+  hashEmbedding: Float32Array | null;
+};
+
+export type NewKnowledgeChunk = {
+  text: string;
+  page: number | null;
+  embedding: number[];
+  hashEmbedding: number[] | null;
+};
+
+export type CommonChatProfile = {
+  userId: string;
+  displayName: string;
+  color: string;
+};
+
 export type CommonChatMessage = {
   id: string;
+  /**
+   * Account id of the author, `bot:<mention>` for model replies; messages from
+   * before accounts carry a random id.
+   */
   senderId: string;
+  senderName: string;
+  senderColor: string;
+  isBot: boolean;
+  /** Empty for deleted messages, which stay as tombstones. */
   text: string;
+  /** Grows with every change to the chat; `since=` and SSE event ids use it. */
+  revision: number;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  deletedBy: "author" | "moderator" | null;
+  pinnedAt: string | null;
+};
+
+export type CommonChatMute = {
+  userId: string;
+  displayName: string;
+  mutedBy: string;
+  /** `null` mutes until lifted by an admin. */
+  mutedUntil: string | null;
   createdAt: string;
 };
 
 let db: any | null = null;
 
+const ATTACHMENTS_DIR = path.join(process.cwd(), "data", "attachments");
+const KNOWLEDGE_DIR = path.join(process.cwd(), "data", "knowledge");
+
 function getDb() {
   if (!db) {
     const dbPath = path.join(process.cwd(), "data", "chat.db");
@@ -35,6 +256,40 @@ function getDb() {
     db = new Database(dbPath);
     db.pragma("journal_mode = WAL");
     db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member',
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+
+      CREATE TABLE IF NOT EXISTS login_throttle (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL,
+        last_failure_at TEXT NOT NULL,
+        locked_until TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS login_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        ip TEXT NOT NULL,
+        user_agent TEXT,
+        reason TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
       CREATE TABLE IF NOT EXISTS chats (
         id TEXT PRIMARY KEY,
         space INTEGER NOT NULL,
@@ -53,28 +308,293 @@ function getDb() {
         FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE
       );
 
+      CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        chat_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        storage_path TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_attachments_chat ON attachments(chat_id);
+
+      CREATE TABLE IF NOT EXISTS chat_summaries (
+        through_message_id TEXT PRIMARY KEY,
+        chat_id TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chat_summaries_chat ON chat_summaries(chat_id);
+
+      CREATE TABLE IF NOT EXISTS usage_records (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        space INTEGER NOT NULL,
+        chat_id TEXT,
+        message_id TEXT,
+        kind TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cached_tokens INTEGER NOT NULL,
+        cost REAL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_records_user ON usage_records(user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_records_space ON usage_records(space, created_at);
+      CREATE INDEX IF NOT EXISTS idx_usage_records_message ON usage_records(message_id);
+
+      CREATE TABLE IF NOT EXISTS prompt_presets (
+        id TEXT PRIMARY KEY,
+        space INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS knowledge_documents (
+        id TEXT PRIMARY KEY,
+        space INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        embedding_model TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_knowledge_documents_user_space ON knowledge_documents(user_id, space);
+
+      CREATE TABLE IF NOT EXISTS knowledge_chunks (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        space INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        page INTEGER,
+        text TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES knowledge_documents(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_space ON knowledge_chunks(space);
+
       CREATE TABLE IF NOT EXISTS common_chat_messages (
         id TEXT PRIMARY KEY,
         sender_id TEXT NOT NULL,
         text TEXT NOT NULL,
         created_at TEXT NOT NULL
       );
+
+      CREATE TABLE IF NOT EXISTS common_chat_profiles (
+        user_id TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        color TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS common_chat_mutes (
+        user_id TEXT PRIMARY KEY,
+        muted_by TEXT NOT NULL,
+        muted_until TEXT,
+        created_at TEXT NOT NULL
+      );
     `);
+
+    ensureColumn(db, "chats", "provider", "TEXT");
+    ensureColumn(db, "chats", "model", "TEXT");
+    ensureColumn(db, "chats", "temperature", "REAL");
+    ensureColumn(db, "chats", "max_output_tokens", "INTEGER");
+    ensureColumn(db, "chats", "reasoning_effort", "TEXT");
+    ensureColumn(db, "chats", "system_prompt", "TEXT");
+    ensureColumn(db, "chats", "user_id", "TEXT");
+    ensureColumn(db, "prompt_presets", "user_id", "TEXT");
+    ensureColumn(db, "chats", "import_source", "TEXT");
+    ensureColumn(db, "chats", "current_leaf_id", "TEXT");
+    ensureColumn(db, "attachments", "transcript", "TEXT");
+    ensureColumn(db, "messages", "tool_calls_json", "TEXT");
+    ensureColumn(db, "messages", "sources_json", "TEXT");
+    if (ensureColumn(db, "common_chat_messages", "revision", "INTEGER")) {
+      db.exec("UPDATE common_chat_messages SET revision = rowid");
+    }
+    db.exec(
+      "CREATE INDEX IF NOT EXISTS idx_common_chat_revision ON common_chat_messages(revision)"
+    );
+    ensureColumn(db, "common_chat_messages", "edited_at", "TEXT");
+    ensureColumn(db, "common_chat_messages", "deleted_at", "TEXT");
+    ensureColumn(db, "common_chat_messages", "deleted_by", "TEXT");
+    ensureColumn(db, "common_chat_messages", "pinned_at", "TEXT");
+    ensureColumn(db, "common_chat_messages", "pinned_by", "TEXT");
+    ensureColumn(db, "common_chat_messages", "bot_label", "TEXT");
+    ensureColumn(db, "knowledge_chunks", "hash_embedding", "BLOB");
+    if (ensureColumn(db, "messages", "parent_id", "TEXT")) {
+      linkExistingMessages(db);
+    }
+    db.exec("CREATE INDEX IF NOT EXISTS idx_chats_user_space ON chats(user_id, space)");
+    ensureSearchIndex(db);
   }
 
   return db;
 }
 
+/**
+ * FTS5 index over message texts and chat titles. It is maintained by the
+ * write functions below and backfilled once when the table is first created.
+ */
+function ensureSearchIndex(database: any) {
+  const exists = database
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'search_index'")
+    .get();
+  if (exists) return;
+
+  database.exec(`
+    CREATE VIRTUAL TABLE search_index USING fts5(
+      text,
+      kind UNINDEXED,
+      chat_id UNINDEXED,
+      message_id UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    INSERT INTO search_index (text, kind, chat_id, message_id)
+      SELECT title, 'chat', id, NULL FROM chats;
+
+    INSERT INTO search_index (text, kind, chat_id, message_id)
+      SELECT text, 'message', chat_id, id FROM messages WHERE text != '';
+  `);
+}
+
+function indexChatTitle(database: any, chatId: string, title: string) {
+  database
+    .prepare("DELETE FROM search_index WHERE kind = 'chat' AND chat_id = ?")
+    .run(chatId);
+  database
+    .prepare("INSERT INTO search_index (text, kind, chat_id, message_id) VALUES (?, 'chat', ?, NULL)")
+    .run(title, chatId);
+}
+
+function indexMessage(database: any, chatId: string, messageId: string, text: string) {
+  if (!text) return;
+  database
+    .prepare(
+      "INSERT INTO search_index (text, kind, chat_id, message_id) VALUES (?, 'message', ?, ?)"
+    )
+    .run(text, chatId, messageId);
+}
+
+function ensureColumn(database: any, table: string, column: string, definition: string) {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  if (columns.some((item) => item.name === column)) {
+    return false;
+  }
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+/** Chats created before branching existed become a single chain of messages. */
+function linkExistingMessages(database: any) {
+  database.exec(`
+    UPDATE messages SET parent_id = (
+      SELECT previous.id FROM messages AS previous
+      WHERE previous.chat_id = messages.chat_id
+        AND (previous.created_at < messages.created_at
+          OR (previous.created_at = messages.created_at AND previous.rowid < messages.rowid))
+      ORDER BY previous.created_at DESC, previous.rowid DESC
+      LIMIT 1
+    );
+
+    UPDATE chats SET current_leaf_id = (
+      SELECT id FROM messages WHERE messages.chat_id = chats.id
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 1
+    );
+  `);
+}
+
+const CHAT_COLUMNS =
+  "id, user_id, space, title, provider, model, temperature, max_output_tokens, reasoning_effort, system_prompt, current_leaf_id, created_at, updated_at";
+
+function mapUser(row: any): AuthUser {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role === "admin" ? "admin" : "member",
+    createdAt: row.created_at
+  };
+}
+
 function mapChat(row: any): ChatSummary {
   return {
     id: row.id,
+    userId: row.user_id ?? null,
+    space: row.space,
+    title: row.title,
+    settings: {
+      provider: row.provider ?? null,
+      model: row.model ?? null,
+      temperature: row.temperature ?? null,
+      maxOutputTokens: row.max_output_tokens ?? null,
+      reasoningEffort: row.reasoning_effort ?? null,
+      systemPrompt: row.system_prompt ?? null
+    },
+    currentLeafId: row.current_leaf_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export const EMPTY_CHAT_SETTINGS: ChatSettings = {
+  provider: null,
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  reasoningEffort: null,
+  systemPrompt: null
+};
+
+function mapPromptPreset(row: any): PromptPreset {
+  return {
+    id: row.id,
+    userId: row.user_id ?? null,
     space: row.space,
     title: row.title,
+    prompt: row.prompt,
+    isDefault: Boolean(row.is_default),
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
 }
 
+function mapAttachment(row: any): StoredAttachment {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    chatId: row.chat_id,
+    kind: row.kind === "image" || row.kind === "audio" ? row.kind : "file",
+    name: row.name,
+    mimeType: row.mime_type,
+    size: row.size,
+    transcript: row.transcript ?? null,
+    createdAt: row.created_at
+  };
+}
+
+function getChatAttachmentsDir(chatId: string) {
+  return path.join(ATTACHMENTS_DIR, chatId);
+}
+
 function normalizeTitle(text: string) {
   const cleaned = text.replace(/\s+/g, " ").trim();
   if (!cleaned) return "Новый чат";
@@ -82,152 +602,1333 @@ function normalizeTitle(text: string) {
   return `${cleaned.slice(0, 57)}...`;
 }
 
-export function listChats(space: number): ChatSummary[] {
+export function countUsers(): number {
+  const row = getDb().prepare("SELECT COUNT(*) AS total FROM users").get() as {
+    total: number;
+  };
+  return row.total;
+}
+
+export function listUsers(): AuthUser[] {
   const rows = getDb()
-    .prepare(
-      "SELECT id, space, title, created_at, updated_at FROM chats WHERE space = ? ORDER BY updated_at DESC"
-    )
-    .all(space);
-  return rows.map(mapChat);
+    .prepare("SELECT id, username, role, created_at FROM users ORDER BY username COLLATE NOCASE")
+    .all();
+  return rows.map(mapUser);
 }
 
-export function getChat(chatId: string): ChatSummary | null {
+export function getUserById(userId: string): AuthUser | null {
   const row = getDb()
-    .prepare(
-      "SELECT id, space, title, created_at, updated_at FROM chats WHERE id = ?"
-    )
-    .get(chatId);
-  return row ? mapChat(row) : null;
+    .prepare("SELECT id, username, role, created_at FROM users WHERE id = ?")
+    .get(userId);
+  return row ? mapUser(row) : null;
+}
+
+export function getUserCredentials(
+  username: string
+): (AuthUser & { passwordHash: string }) | null {
+  const row = getDb()
+    .prepare("SELECT id, username, role, password_hash, created_at FROM users WHERE username = ?")
+    .get(username);
+  return row ? { ...mapUser(row), passwordHash: row.password_hash } : null;
 }
 
-export function createChat(space: number, title = "Новый чат"): ChatSummary {
+export function createUser(username: string, passwordHash: string, role: UserRole): AuthUser {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
   getDb()
     .prepare(
-      "INSERT INTO chats (id, space, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)"
+      "INSERT INTO users (id, username, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?)"
     )
-    .run(id, space, title, now, now);
-  return { id, space, title, createdAt: now, updatedAt: now };
+    .run(id, username, passwordHash, role, now);
+  return { id, username, role, createdAt: now };
 }
 
-export function listMessages(chatId: string): StoredMessage[] {
-  const rows = getDb()
-    .prepare(
-      "SELECT id, chat_id, role, text, images_json, created_at FROM messages WHERE chat_id = ? ORDER BY created_at ASC"
-    )
-    .all(chatId);
-
-  return rows.map((row: any) => ({
-    id: row.id,
-    chatId: row.chat_id,
-    role: row.role,
-    text: row.text,
-    createdAt: row.created_at
-  }));
+export function updateUserPassword(userId: string, passwordHash: string) {
+  return (
+    getDb()
+      .prepare("UPDATE users SET password_hash = ? WHERE id = ?")
+      .run(passwordHash, userId).changes > 0
+  );
 }
 
-export function addMessage(
-  chatId: string,
-  role: "user" | "assistant",
-  text: string
-): StoredMessage {
-  const id = crypto.randomUUID();
-  const now = new Date().toISOString();
-  const imagesJson = null;
+export function deleteUser(userId: string) {
+  const chatIds = getDb()
+    .prepare("SELECT id FROM chats WHERE user_id = ?")
+    .all(userId)
+    .map((row: { id: string }) => row.id);
+  for (const chatId of chatIds) {
+    deleteChat(chatId);
+  }
 
-  getDb()
-    .prepare(
-      "INSERT INTO messages (id, chat_id, role, text, images_json, created_at) VALUES (?, ?, ?, ?, ?, ?)"
-    )
-    .run(id, chatId, role, text, imagesJson, now);
+  const documentIds = getDb()
+    .prepare("SELECT id FROM knowledge_documents WHERE user_id = ?")
+    .all(userId)
+    .map((row: { id: string }) => row.id);
+  for (const documentId of documentIds) {
+    deleteKnowledgeDocument(documentId);
+  }
 
-  getDb()
-    .prepare("UPDATE chats SET updated_at = ? WHERE id = ?")
-    .run(now, chatId);
+  const database = getDb();
+  const tx = database.transaction((id: string) => {
+    database.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+    database.prepare("DELETE FROM prompt_presets WHERE user_id = ?").run(id);
+    database.prepare("DELETE FROM common_chat_profiles WHERE user_id = ?").run(id);
+    database.prepare("DELETE FROM common_chat_mutes WHERE user_id = ?").run(id);
+    return database.prepare("DELETE FROM users WHERE id = ?").run(id).changes;
+  });
+  return tx(userId) > 0;
+}
 
-  return {
-    id,
-    chatId,
-    role,
-    text,
-    createdAt: now
-  };
+/** Chats created before accounts existed belong to the first admin. */
+export function assignOrphanedRecords(userId: string) {
+  const database = getDb();
+  database.prepare("UPDATE chats SET user_id = ? WHERE user_id IS NULL").run(userId);
+  database.prepare("UPDATE prompt_presets SET user_id = ? WHERE user_id IS NULL").run(userId);
 }
 
-export function updateChatTitleIfDefault(chatId: string, text: string) {
-  const row = getDb()
-    .prepare("SELECT title FROM chats WHERE id = ?")
-    .get(chatId) as { title: string } | undefined;
+export function createSession(sessionHash: string, userId: string, ttlSeconds: number) {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+  const database = getDb();
+  database.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now.toISOString());
+  database
+    .prepare("INSERT INTO sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)")
+    .run(sessionHash, userId, now.toISOString(), expiresAt);
+}
 
-  if (!row || row.title !== "Новый чат") {
-    return;
-  }
+export function getSessionUser(sessionHash: string): AuthUser | null {
+  const row = getDb()
+    .prepare(
+      `SELECT users.id, users.username, users.role, users.created_at
+       FROM sessions
+       JOIN users ON users.id = sessions.user_id
+       WHERE sessions.id = ? AND sessions.expires_at > ?`
+    )
+    .get(sessionHash, new Date().toISOString());
+  return row ? mapUser(row) : null;
+}
 
-  const title = normalizeTitle(text);
-  getDb().prepare("UPDATE chats SET title = ? WHERE id = ?").run(title, chatId);
+export function deleteSession(sessionHash: string) {
+  getDb().prepare("DELETE FROM sessions WHERE id = ?").run(sessionHash);
 }
 
-export function deleteChat(chatId: string) {
-  const database = getDb();
-  const tx = database.transaction((id: string) => {
-    database.prepare("DELETE FROM messages WHERE chat_id = ?").run(id);
-    return database.prepare("DELETE FROM chats WHERE id = ?").run(id).changes;
-  });
+export function deleteUserSessions(userId: string, exceptSessionHash?: string) {
+  getDb()
+    .prepare("DELETE FROM sessions WHERE user_id = ? AND id != ?")
+    .run(userId, exceptSessionHash ?? "");
+}
 
-  return tx(chatId) > 0;
+export function getUserChat(userId: string, chatId: string): ChatSummary | null {
+  const chat = getChat(chatId);
+  return chat && chat.userId === userId ? chat : null;
 }
 
-export function listCommonChatMessages(limit = 80): CommonChatMessage[] {
-  const safeLimit = Math.max(1, Math.min(300, Math.floor(limit)));
+export function getLoginThrottles(keys: string[]): LoginThrottle[] {
+  if (keys.length === 0) return [];
   const rows = getDb()
     .prepare(
-      `SELECT id, sender_id, text, created_at
-       FROM common_chat_messages
-       ORDER BY created_at DESC
-       LIMIT ?`
+      `SELECT key, failures, last_failure_at, locked_until FROM login_throttle
+       WHERE key IN (${keys.map(() => "?").join(", ")})`
     )
-    .all(safeLimit) as Array<{
-    id: string;
-    sender_id: string;
-    text: string;
-    created_at: string;
-  }>;
-
-  return rows
-    .reverse()
-    .map((row) => ({
-      id: row.id,
-      senderId: row.sender_id,
-      text: row.text,
-      createdAt: row.created_at
-    }));
+    .all(...keys);
+  return rows.map((row: any) => ({
+    key: row.key,
+    failures: row.failures,
+    lastFailureAt: row.last_failure_at,
+    lockedUntil: row.locked_until ?? null
+  }));
 }
 
-export function addCommonChatMessage(senderId: string, text: string): CommonChatMessage {
-  const id = crypto.randomUUID();
-  const now = new Date().toISOString();
-
+export function saveLoginThrottle(throttle: LoginThrottle) {
   getDb()
     .prepare(
-      "INSERT INTO common_chat_messages (id, sender_id, text, created_at) VALUES (?, ?, ?, ?)"
+      `INSERT INTO login_throttle (key, failures, last_failure_at, locked_until)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         failures = excluded.failures,
+         last_failure_at = excluded.last_failure_at,
+         locked_until = excluded.locked_until`
     )
-    .run(id, senderId, text, now);
+    .run(throttle.key, throttle.failures, throttle.lastFailureAt, throttle.lockedUntil);
+}
 
-  getDb().prepare(
-    `DELETE FROM common_chat_messages
-     WHERE id IN (
-       SELECT id
-       FROM common_chat_messages
-       ORDER BY created_at DESC
-       LIMIT -1 OFFSET 500
-     )`
-  ).run();
+export function clearLoginThrottle(key: string) {
+  getDb().prepare("DELETE FROM login_throttle WHERE key = ?").run(key);
+}
 
-  return {
+export function addLoginAuditEntry(entry: {
+  username: string;
+  ip: string;
+  userAgent: string | null;
+  reason: string;
+}) {
+  const database = getDb();
+  database
+    .prepare(
+      "INSERT INTO login_audit (username, ip, user_agent, reason, created_at) VALUES (?, ?, ?, ?, ?)"
+    )
+    .run(entry.username, entry.ip, entry.userAgent, entry.reason, new Date().toISOString());
+
+  database
+    .prepare(
+      `DELETE FROM login_audit
+       WHERE id IN (SELECT id FROM login_audit ORDER BY id DESC LIMIT -1 OFFSET 5000)`
+    )
+    .run();
+}
+
+export function listLoginAudit(limit = 100): LoginAuditEntry[] {
+  const safeLimit = Math.max(1, Math.min(500, Math.floor(limit)));
+  const rows = getDb()
+    .prepare(
+      "SELECT id, username, ip, user_agent, reason, created_at FROM login_audit ORDER BY id DESC LIMIT ?"
+    )
+    .all(safeLimit);
+  return rows.map((row: any) => ({
+    id: row.id,
+    username: row.username,
+    ip: row.ip,
+    userAgent: row.user_agent ?? null,
+    reason: row.reason,
+    createdAt: row.created_at
+  }));
+}
+
+export function listChats(userId: string, space: number): ChatSummary[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT ${CHAT_COLUMNS} FROM chats WHERE user_id = ? AND space = ? ORDER BY updated_at DESC`
+    )
+    .all(userId, space);
+  return rows.map(mapChat);
+}
+
+export function getChat(chatId: string): ChatSummary | null {
+  const row = getDb()
+    .prepare(`SELECT ${CHAT_COLUMNS} FROM chats WHERE id = ?`)
+    .get(chatId);
+  return row ? mapChat(row) : null;
+}
+
+export function createChat(
+  userId: string,
+  space: number,
+  title = "Новый чат",
+  settings: ChatSettings = EMPTY_CHAT_SETTINGS
+): ChatSummary {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const database = getDb();
+  database
+    .prepare(
+      `INSERT INTO chats (id, user_id, space, title, provider, model, temperature, max_output_tokens, reasoning_effort, system_prompt, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      userId,
+      space,
+      title,
+      settings.provider,
+      settings.model,
+      settings.temperature,
+      settings.maxOutputTokens,
+      settings.reasoningEffort,
+      settings.systemPrompt,
+      now,
+      now
+    );
+  indexChatTitle(database, id, title);
+  return {
     id,
-    senderId,
+    userId,
+    space,
+    title,
+    settings,
+    currentLeafId: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function hasImportedChat(userId: string, importSource: string, chatId?: string) {
+  const row = getDb()
+    .prepare(
+      "SELECT 1 FROM chats WHERE user_id = ? AND (import_source = ? OR id = ?) LIMIT 1"
+    )
+    .get(userId, importSource, chatId ?? "");
+  return Boolean(row);
+}
+
+/** Inserts a whole conversation at once, keeping its original timestamps. */
+export function importChat(
+  userId: string,
+  space: number,
+  chat: {
+    title: string;
+    settings: ChatSettings;
+    importSource: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: Array<{ role: "user" | "assistant"; text: string; createdAt: string }>;
+  }
+): ChatSummary {
+  const id = crypto.randomUUID();
+  const title = chat.title.replace(/\s+/g, " ").trim().slice(0, 120) || "Без названия";
+  const settings = chat.settings;
+  const database = getDb();
+  let currentLeafId: string | null = null;
+
+  const tx = database.transaction(() => {
+    database
+      .prepare(
+        `INSERT INTO chats (id, user_id, space, title, provider, model, temperature, max_output_tokens, reasoning_effort, system_prompt, import_source, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        userId,
+        space,
+        title,
+        settings.provider,
+        settings.model,
+        settings.temperature,
+        settings.maxOutputTokens,
+        settings.reasoningEffort,
+        settings.systemPrompt,
+        chat.importSource,
+        chat.createdAt,
+        chat.updatedAt
+      );
+    indexChatTitle(database, id, title);
+
+    const insertMessage = database.prepare(
+      "INSERT INTO messages (id, chat_id, parent_id, role, text, images_json, created_at) VALUES (?, ?, ?, ?, ?, NULL, ?)"
+    );
+    // Messages are ordered by created_at, so equal source timestamps are nudged apart.
+    let previous = 0;
+    for (const message of chat.messages) {
+      const time = Math.max(Date.parse(message.createdAt) || 0, previous + 1);
+      previous = time;
+      const messageId = crypto.randomUUID();
+      insertMessage.run(
+        messageId,
+        id,
+        currentLeafId,
+        message.role,
+        message.text,
+        new Date(time).toISOString()
+      );
+      indexMessage(database, id, messageId, message.text);
+      currentLeafId = messageId;
+    }
+
+    database
+      .prepare("UPDATE chats SET current_leaf_id = ? WHERE id = ?")
+      .run(currentLeafId, id);
+  });
+  tx();
+
+  return {
+    id,
+    userId,
+    space,
+    title,
+    settings,
+    currentLeafId,
+    createdAt: chat.createdAt,
+    updatedAt: chat.updatedAt
+  };
+}
+
+export function updateChatSettings(chatId: string, settings: ChatSettings): ChatSummary | null {
+  getDb()
+    .prepare(
+      `UPDATE chats
+       SET provider = ?, model = ?, temperature = ?, max_output_tokens = ?, reasoning_effort = ?,
+           system_prompt = ?
+       WHERE id = ?`
+    )
+    .run(
+      settings.provider,
+      settings.model,
+      settings.temperature,
+      settings.maxOutputTokens,
+      settings.reasoningEffort,
+      settings.systemPrompt,
+      chatId
+    );
+  return getChat(chatId);
+}
+
+export function listMessages(chatId: string): StoredMessage[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT m.id, m.chat_id, m.parent_id, m.role, m.text, m.tool_calls_json, m.sources_json,
+              m.created_at,
+              u.provider, u.model, u.input_tokens, u.output_tokens, u.cached_tokens, u.cost
+       FROM messages m
+       LEFT JOIN usage_records u ON u.message_id = m.id AND u.kind = 'chat'
+       WHERE m.chat_id = ?
+       ORDER BY m.created_at ASC, m.rowid ASC`
+    )
+    .all(chatId);
+
+  const attachmentRows = getDb()
+    .prepare(
+      "SELECT id, message_id, chat_id, kind, name, mime_type, size, transcript, created_at FROM attachments WHERE chat_id = ? ORDER BY created_at ASC, rowid ASC"
+    )
+    .all(chatId);
+
+  const attachmentsByMessage = new Map<string, StoredAttachment[]>();
+  for (const row of attachmentRows) {
+    const attachment = mapAttachment(row);
+    const list = attachmentsByMessage.get(attachment.messageId) ?? [];
+    list.push(attachment);
+    attachmentsByMessage.set(attachment.messageId, list);
+  }
+
+  return rows.map((row: any) => ({
+    id: row.id,
+    chatId: row.chat_id,
+    parentId: row.parent_id ?? null,
+    role: row.role,
+    text: row.text,
+    attachments: attachmentsByMessage.get(row.id) ?? [],
+    usage: row.provider
+      ? {
+          provider: row.provider,
+          model: row.model,
+          inputTokens: row.input_tokens,
+          outputTokens: row.output_tokens,
+          cachedTokens: row.cached_tokens,
+          cost: row.cost ?? null
+        }
+      : null,
+    toolCalls: row.tool_calls_json ? JSON.parse(row.tool_calls_json) : [],
+    sources: row.sources_json ? JSON.parse(row.sources_json) : [],
+    createdAt: row.created_at
+  }));
+}
+
+export function addMessage(
+  chatId: string,
+  role: "user" | "assistant",
+  text: string,
+  attachments: NewAttachment[] = [],
+  parentId: string | null = null,
+  details: { toolCalls?: ToolCallRecord[]; sources?: KnowledgeSource[] } = {}
+): StoredMessage {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const imagesJson = null;
+  const toolCalls = details.toolCalls ?? [];
+  const sources = details.sources ?? [];
+  const toolCallsJson = toolCalls.length > 0 ? JSON.stringify(toolCalls) : null;
+  const sourcesJson = sources.length > 0 ? JSON.stringify(sources) : null;
+  const database = getDb();
+
+  const storedAttachments: StoredAttachment[] = [];
+  const writtenFiles: string[] = [];
+
+  if (attachments.length > 0) {
+    fs.mkdirSync(getChatAttachmentsDir(chatId), { recursive: true });
+  }
+
+  try {
+    for (const attachment of attachments) {
+      const attachmentId = crypto.randomUUID();
+      const storagePath = path.join(chatId, attachmentId);
+      fs.writeFileSync(path.join(ATTACHMENTS_DIR, storagePath), attachment.data);
+      writtenFiles.push(storagePath);
+      storedAttachments.push({
+        id: attachmentId,
+        messageId: id,
+        chatId,
+        kind: attachment.kind,
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: attachment.data.byteLength,
+        transcript: attachment.transcript ?? null,
+        createdAt: now
+      });
+    }
+
+    const tx = database.transaction(() => {
+      database
+        .prepare(
+          `INSERT INTO messages (id, chat_id, parent_id, role, text, images_json, tool_calls_json, sources_json, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(id, chatId, parentId, role, text, imagesJson, toolCallsJson, sourcesJson, now);
+      indexMessage(database, chatId, id, text);
+
+      const insertAttachment = database.prepare(
+        `INSERT INTO attachments (id, message_id, chat_id, kind, name, mime_type, size, transcript, storage_path, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      storedAttachments.forEach((attachment, index) => {
+        insertAttachment.run(
+          attachment.id,
+          id,
+          chatId,
+          attachment.kind,
+          attachment.name,
+          attachment.mimeType,
+          attachment.size,
+          attachment.transcript,
+          writtenFiles[index],
+          now
+        );
+      });
+
+      database
+        .prepare("UPDATE chats SET updated_at = ?, current_leaf_id = ? WHERE id = ?")
+        .run(now, id, chatId);
+    });
+    tx();
+  } catch (error) {
+    for (const storagePath of writtenFiles) {
+      fs.rmSync(path.join(ATTACHMENTS_DIR, storagePath), { force: true });
+    }
+    throw error;
+  }
+
+  return {
+    id,
+    chatId,
+    parentId,
+    role,
     text,
+    attachments: storedAttachments,
+    usage: null,
+    toolCalls,
+    sources,
     createdAt: now
   };
 }
+
+/**
+ * Messages on the branch ending at leafId, from the root down. Without a
+ * known leaf the newest message is used.
+ */
+export function listBranchMessages(chatId: string, leafId: string | null): StoredMessage[] {
+  const messages = listMessages(chatId);
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: StoredMessage[] = [];
+
+  let current: StoredMessage | undefined =
+    (leafId ? byId.get(leafId) : undefined) ?? messages[messages.length - 1];
+  while (current && path.length <= messages.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+export function getMessage(chatId: string, messageId: string): StoredMessage | null {
+  return listMessages(chatId).find((message) => message.id === messageId) ?? null;
+}
+
+export function setCurrentLeaf(chatId: string, leafId: string) {
+  return (
+    getDb()
+      .prepare(
+        `UPDATE chats SET current_leaf_id = ?
+         WHERE id = ? AND EXISTS (SELECT 1 FROM messages WHERE id = ? AND chat_id = ?)`
+      )
+      .run(leafId, chatId, leafId, chatId).changes > 0
+  );
+}
+
+/**
+ * Rolling summaries are keyed by the last message they cover, so every branch
+ * of a chat keeps its own chain of summaries.
+ */
+export function listChatSummaries(chatId: string, messageIds: string[]): ChatContextSummary[] {
+  if (messageIds.length === 0) return [];
+  return getDb()
+    .prepare(
+      `SELECT through_message_id, summary, created_at FROM chat_summaries
+       WHERE chat_id = ? AND through_message_id IN (${messageIds.map(() => "?").join(", ")})`
+    )
+    .all(chatId, ...messageIds)
+    .map((row: any) => ({
+      throughMessageId: row.through_message_id,
+      summary: row.summary,
+      createdAt: row.created_at
+    }));
+}
+
+export function saveChatSummary(chatId: string, throughMessageId: string, summary: string) {
+  getDb()
+    .prepare(
+      `INSERT INTO chat_summaries (through_message_id, chat_id, summary, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(through_message_id) DO UPDATE SET
+         summary = excluded.summary,
+         created_at = excluded.created_at`
+    )
+    .run(throughMessageId, chatId, summary, new Date().toISOString());
+}
+
+export function getAttachment(attachmentId: string): StoredAttachment | null {
+  const row = getDb()
+    .prepare(
+      "SELECT id, message_id, chat_id, kind, name, mime_type, size, transcript, created_at FROM attachments WHERE id = ?"
+    )
+    .get(attachmentId);
+  return row ? mapAttachment(row) : null;
+}
+
+export function readAttachmentData(attachmentId: string): Buffer | null {
+  const row = getDb()
+    .prepare("SELECT storage_path FROM attachments WHERE id = ?")
+    .get(attachmentId) as { storage_path: string } | undefined;
+
+  if (!row) return null;
+
+  try {
+    return fs.readFileSync(path.join(ATTACHMENTS_DIR, row.storage_path));
+  } catch {
+    return null;
+  }
+}
+
+export function updateChatTitleIfDefault(chatId: string, text: string) {
+  const row = getDb()
+    .prepare("SELECT title FROM chats WHERE id = ?")
+    .get(chatId) as { title: string } | undefined;
+
+  if (!row || row.title !== "Новый чат") {
+    return;
+  }
+
+  const title = normalizeTitle(text);
+  const database = getDb();
+  database.prepare("UPDATE chats SET title = ? WHERE id = ?").run(title, chatId);
+  indexChatTitle(database, chatId, title);
+}
+
+export function deleteChat(chatId: string) {
+  const database = getDb();
+  const tx = database.transaction((id: string) => {
+    database.prepare("DELETE FROM search_index WHERE chat_id = ?").run(id);
+    database.prepare("DELETE FROM chat_summaries WHERE chat_id = ?").run(id);
+    database.prepare("DELETE FROM attachments WHERE chat_id = ?").run(id);
+    database.prepare("DELETE FROM messages WHERE chat_id = ?").run(id);
+    return database.prepare("DELETE FROM chats WHERE id = ?").run(id).changes;
+  });
+
+  const removed = tx(chatId) > 0;
+  if (removed) {
+    fs.rmSync(getChatAttachmentsDir(chatId), { recursive: true, force: true });
+  }
+  return removed;
+}
+
+export function listPromptPresets(userId: string, space: number): PromptPreset[] {
+  const rows = getDb()
+    .prepare(
+      "SELECT * FROM prompt_presets WHERE user_id = ? AND space = ? ORDER BY is_default DESC, title COLLATE NOCASE ASC"
+    )
+    .all(userId, space);
+  return rows.map(mapPromptPreset);
+}
+
+export function getPromptPreset(presetId: string): PromptPreset | null {
+  const row = getDb().prepare("SELECT * FROM prompt_presets WHERE id = ?").get(presetId);
+  return row ? mapPromptPreset(row) : null;
+}
+
+export function getDefaultPromptPreset(userId: string, space: number): PromptPreset | null {
+  const row = getDb()
+    .prepare(
+      "SELECT * FROM prompt_presets WHERE user_id = ? AND space = ? AND is_default = 1 LIMIT 1"
+    )
+    .get(userId, space);
+  return row ? mapPromptPreset(row) : null;
+}
+
+export function savePromptPreset(preset: {
+  id?: string;
+  userId: string;
+  space: number;
+  title: string;
+  prompt: string;
+  isDefault: boolean;
+}): PromptPreset {
+  const database = getDb();
+  const id = preset.id ?? crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const tx = database.transaction(() => {
+    if (preset.isDefault) {
+      database
+        .prepare(
+          "UPDATE prompt_presets SET is_default = 0 WHERE user_id = ? AND space = ? AND id != ?"
+        )
+        .run(preset.userId, preset.space, id);
+    }
+
+    database
+      .prepare(
+        `INSERT INTO prompt_presets (id, user_id, space, title, prompt, is_default, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           title = excluded.title,
+           prompt = excluded.prompt,
+           is_default = excluded.is_default,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        id,
+        preset.userId,
+        preset.space,
+        preset.title,
+        preset.prompt,
+        preset.isDefault ? 1 : 0,
+        now,
+        now
+      );
+  });
+  tx();
+
+  return getPromptPreset(id)!;
+}
+
+export function deletePromptPreset(presetId: string) {
+  return getDb().prepare("DELETE FROM prompt_presets WHERE id = ?").run(presetId).changes > 0;
+}
+
+const SNIPPET_OPEN = "\u0002";
+const SNIPPET_CLOSE = "\u0003";
+
+/** Turns free text into an FTS5 query: every word must match as a prefix. */
+function toFtsQuery(query: string) {
+  return query
+    .split(/\s+/)
+    .map((token) => token.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((token) => `"${token}"*`)
+    .join(" ");
+}
+
+function splitSnippet(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(SNIPPET_OPEN);
+    if (start === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), match: false });
+    }
+
+    const end = rest.indexOf(SNIPPET_CLOSE, start);
+    const stop = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + 1, stop), match: true });
+    rest = rest.slice(stop + 1);
+  }
+
+  return parts;
+}
+
+export function searchChats(
+  userId: string,
+  space: number,
+  query: string,
+  limit = 30
+): SearchResult[] {
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const safeLimit = Math.max(1, Math.min(100, Math.floor(limit)));
+  const rows = getDb()
+    .prepare(
+      `SELECT search_index.kind, search_index.chat_id, search_index.message_id,
+              snippet(search_index, 0, ?, ?, '…', 16) AS snippet,
+              chats.title, chats.updated_at, messages.role, messages.created_at
+       FROM search_index
+       JOIN chats ON chats.id = search_index.chat_id
+       LEFT JOIN messages ON messages.id = search_index.message_id
+       WHERE search_index MATCH ? AND chats.user_id = ? AND chats.space = ?
+       ORDER BY bm25(search_index)
+       LIMIT ?`
+    )
+    .all(SNIPPET_OPEN, SNIPPET_CLOSE, ftsQuery, userId, space, safeLimit);
+
+  return rows.map((row: any) => ({
+    kind: row.kind === "chat" ? "chat" : "message",
+    chatId: row.chat_id,
+    chatTitle: row.title,
+    messageId: row.message_id ?? null,
+    role: row.role ?? null,
+    snippet: splitSnippet(row.snippet ?? ""),
+    createdAt: row.created_at ?? row.updated_at
+  }));
+}
+
+export function recordUsage(record: {
+  userId: string;
+  space: number;
+  chatId: string | null;
+  messageId: string | null;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number | null;
+}) {
+  getDb()
+    .prepare(
+      `INSERT INTO usage_records (
+         id, user_id, space, chat_id, message_id, kind, provider, model,
+         input_tokens, output_tokens, cached_tokens, cost, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      crypto.randomUUID(),
+      record.userId,
+      record.space,
+      record.chatId,
+      record.messageId,
+      record.kind,
+      record.provider,
+      record.model,
+      record.inputTokens,
+      record.outputTokens,
+      record.cachedTokens,
+      record.cost,
+      new Date().toISOString()
+    );
+}
+
+const USAGE_TOTALS_SQL = `COALESCE(SUM(u.input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(u.output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(u.cached_tokens), 0) AS cached_tokens,
+  COALESCE(SUM(u.cost), 0) AS cost,
+  COUNT(*) AS requests,
+  COALESCE(SUM(u.cost IS NULL), 0) AS unpriced_requests,
+  COALESCE(SUM(CASE WHEN u.cost IS NULL THEN u.input_tokens END), 0) AS unpriced_input_tokens,
+  COALESCE(SUM(CASE WHEN u.cost IS NULL THEN u.output_tokens END), 0) AS unpriced_output_tokens`;
+
+function mapUsageTotals(row: any): UsageTotals {
+  return {
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cachedTokens: row.cached_tokens,
+    cost: row.cost,
+    requests: row.requests,
+    unpricedRequests: row.unpriced_requests,
+    unpricedInputTokens: row.unpriced_input_tokens,
+    unpricedOutputTokens: row.unpriced_output_tokens
+  };
+}
+
+function buildUsageWhere(filter: UsageFilter) {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.userId) {
+    conditions.push("u.user_id = ?");
+    params.push(filter.userId);
+  }
+  if (filter.space != null) {
+    conditions.push("u.space = ?");
+    params.push(filter.space);
+  }
+  if (filter.since) {
+    conditions.push("u.created_at >= ?");
+    params.push(filter.since);
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export function getUsageTotals(filter: UsageFilter): UsageTotals {
+  const { where, params } = buildUsageWhere(filter);
+  return mapUsageTotals(
+    getDb()
+      .prepare(`SELECT ${USAGE_TOTALS_SQL} FROM usage_records u ${where}`)
+      .get(...params)
+  );
+}
+
+export function listUsageBySpace(filter: UsageFilter) {
+  const { where, params } = buildUsageWhere(filter);
+  return getDb()
+    .prepare(
+      `SELECT u.space, ${USAGE_TOTALS_SQL} FROM usage_records u ${where}
+       GROUP BY u.space ORDER BY u.space`
+    )
+    .all(...params)
+    .map((row: any) => ({ space: row.space as number, ...mapUsageTotals(row) }));
+}
+
+/** Deleted chats keep their records and are reported with a null title. */
+export function listUsageByChat(filter: UsageFilter, limit = 50) {
+  const { where, params } = buildUsageWhere(filter);
+  const safeLimit = Math.max(1, Math.min(500, Math.floor(limit)));
+  return getDb()
+    .prepare(
+      `SELECT u.chat_id, u.space, chats.title, ${USAGE_TOTALS_SQL}
+       FROM usage_records u
+       LEFT JOIN chats ON chats.id = u.chat_id
+       ${where ? `${where} AND` : "WHERE"} u.chat_id IS NOT NULL
+       GROUP BY u.chat_id
+       ORDER BY cost DESC, input_tokens + output_tokens DESC
+       LIMIT ?`
+    )
+    .all(...params, safeLimit)
+    .map((row: any) => ({
+      chatId: row.chat_id as string,
+      space: row.space as number,
+      title: (row.title ?? null) as string | null,
+      ...mapUsageTotals(row)
+    }));
+}
+
+export function listUsageByUser(filter: UsageFilter) {
+  const { where, params } = buildUsageWhere(filter);
+  return getDb()
+    .prepare(
+      `SELECT u.user_id, users.username, ${USAGE_TOTALS_SQL}
+       FROM usage_records u
+       LEFT JOIN users ON users.id = u.user_id
+       ${where}
+       GROUP BY u.user_id
+       ORDER BY cost DESC`
+    )
+    .all(...params)
+    .map((row: any) => ({
+      userId: row.user_id as string,
+      username: (row.username ?? null) as string | null,
+      ...mapUsageTotals(row)
+    }));
+}
+
+function mapKnowledgeDocument(row: any): KnowledgeDocument {
+  return {
+    id: row.id,
+    space: row.space,
+    userId: row.user_id,
+    name: row.name,
+    mimeType: row.mime_type,
+    size: row.size,
+    chunkCount: row.chunk_count ?? 0,
+    embeddingModel: row.embedding_model,
+    createdAt: row.created_at
+  };
+}
+
+const KNOWLEDGE_DOCUMENT_COLUMNS = `d.id, d.space, d.user_id, d.name, d.mime_type, d.size, d.embedding_model, d.created_at,
+       (SELECT COUNT(*) FROM knowledge_chunks c WHERE c.document_id = d.id) AS chunk_count`;
+
+export function listKnowledgeDocuments(userId: string, space: number): KnowledgeDocument[] {
+  return getDb()
+    .prepare(
+      `SELECT ${KNOWLEDGE_DOCUMENT_COLUMNS} FROM knowledge_documents d
+       WHERE d.user_id = ? AND d.space = ? ORDER BY d.name COLLATE NOCASE ASC`
+    )
+    .all(userId, space)
+    .map(mapKnowledgeDocument);
+}
+
+export function getKnowledgeDocument(documentId: string): KnowledgeDocument | null {
+  const row = getDb()
+    .prepare(`SELECT ${KNOWLEDGE_DOCUMENT_COLUMNS} FROM knowledge_documents d WHERE d.id = ?`)
+    .get(documentId);
+  return row ? mapKnowledgeDocument(row) : null;
+}
+
+export function readKnowledgeDocumentData(documentId: string): Buffer | null {
+  try {
+    return fs.readFileSync(path.join(KNOWLEDGE_DIR, documentId));
+  } catch {
+    return null;
+  }
+}
+
+/** Stores the original file and its embedded chunks in one step. */
+export function addKnowledgeDocument(document: {
+  space: number;
+  userId: string;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+  embeddingModel: string;
+  chunks: NewKnowledgeChunk[];
+}): KnowledgeDocument {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const database = getDb();
+  const filePath = path.join(KNOWLEDGE_DIR, id);
+
+  fs.mkdirSync(KNOWLEDGE_DIR, { recursive: true });
+  fs.writeFileSync(filePath, document.data);
+
+  try {
+    const tx = database.transaction(() => {
+      database
+        .prepare(
+          `INSERT INTO knowledge_documents (id, space, user_id, name, mime_type, size, embedding_model, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          id,
+          document.space,
+          document.userId,
+          document.name,
+          document.mimeType,
+          document.data.byteLength,
+          document.embeddingModel,
+          now
+        );
+
+      const insertChunk = database.prepare(
+        `INSERT INTO knowledge_chunks (id, document_id, space, position, page, text, embedding, hash_embedding)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      document.chunks.forEach((chunk, index) => {
+        insertChunk.run(
+          crypto.randomUUID(),
+          id,
+          document.space,
+          index,
+          chunk.page,
+          chunk.text,
+          toVectorBlob(chunk.embedding),
+          chunk.hashEmbedding ? toVectorBlob(chunk.hashEmbedding) : null
+        );
+      });
+    });
+    tx();
+  } catch (error) {
+    fs.rmSync(filePath, { force: true });
+    throw error;
+  }
+
+  return {
+    id,
+    space: document.space,
+    userId: document.userId,
+    name: document.name,
+    mimeType: document.mimeType,
+    size: document.data.byteLength,
+    chunkCount: document.chunks.length,
+    embeddingModel: document.embeddingModel,
+    createdAt: now
+  };
+}
+
+export function deleteKnowledgeDocument(documentId: string) {
+  const database = getDb();
+  const tx = database.transaction((id: string) => {
+    database.prepare("DELETE FROM knowledge_chunks WHERE document_id = ?").run(id);
+    return database.prepare("DELETE FROM knowledge_documents WHERE id = ?").run(id).changes;
+  });
+
+  const removed = tx(documentId) > 0;
+  if (removed) {
+    fs.rmSync(path.join(KNOWLEDGE_DIR, documentId), { force: true });
+  }
+  return removed;
+}
+
+function toVectorBlob(vector: number[]) {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+// Copied because SQLite blobs are not guaranteed to be 4-byte aligned.
+function fromVectorBlob(blob: Buffer) {
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+/** Fills in hashed vectors of chunks stored before they were kept at index time. */
+export function saveKnowledgeChunkHashEmbeddings(chunks: Array<{ id: string; vector: number[] }>) {
+  const database = getDb();
+  const update = database.prepare("UPDATE knowledge_chunks SET hash_embedding = ? WHERE id = ?");
+  database.transaction(() => {
+    for (const chunk of chunks) update.run(toVectorBlob(chunk.vector), chunk.id);
+  })();
+}
+
+/** Every chunk of the account's space library with its vector, for in-process similarity search. */
+export function listKnowledgeChunks(userId: string, space: number): KnowledgeChunk[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT c.id, c.document_id, c.page, c.text, c.embedding, c.hash_embedding, d.name,
+              d.embedding_model
+       FROM knowledge_chunks c
+       JOIN knowledge_documents d ON d.id = c.document_id
+       WHERE d.user_id = ? AND c.space = ?
+       ORDER BY d.name COLLATE NOCASE ASC, c.position ASC`
+    )
+    .all(userId, space);
+
+  return rows.map((row: any) => ({
+    id: row.id,
+    documentId: row.document_id,
+    documentName: row.name,
+    page: row.page ?? null,
+    text: row.text,
+    embeddingModel: row.embedding_model,
+    embedding: fromVectorBlob(row.embedding),
+    hashEmbedding: row.hash_embedding ? fromVectorBlob(row.hash_embedding) : null
+  }));
+}
+
+/** Profile fields come from a join, so a rename shows on earlier messages too. */
+const COMMON_CHAT_MESSAGE_SELECT = `
+  SELECT m.id, m.sender_id, m.text, m.revision, m.created_at, m.edited_at, m.deleted_at,
+         m.deleted_by, m.pinned_at, m.bot_label,
+         COALESCE(p.display_name, u.username) AS sender_name, p.color AS sender_color
+  FROM common_chat_messages m
+  LEFT JOIN users u ON u.id = m.sender_id
+  LEFT JOIN common_chat_profiles p ON p.user_id = m.sender_id`;
+
+function mapCommonChatMessage(row: any): CommonChatMessage {
+  return {
+    id: row.id,
+    senderId: row.sender_id,
+    senderName: row.bot_label ?? row.sender_name ?? FORMER_PARTICIPANT_NAME,
+    senderColor: row.bot_label
+      ? COMMON_CHAT_BOT_COLOR
+      : (row.sender_color ?? getDefaultCommonChatColor(row.sender_id)),
+    isBot: Boolean(row.bot_label),
+    text: row.deleted_at ? "" : row.text,
+    revision: row.revision,
+    createdAt: row.created_at,
+    editedAt: row.edited_at ?? null,
+    deletedAt: row.deleted_at ?? null,
+    deletedBy: row.deleted_at ? (row.deleted_by === row.sender_id ? "author" : "moderator") : null,
+    pinnedAt: row.pinned_at ?? null
+  };
+}
+
+export function getCommonChatRevision(): number {
+  const row = getDb()
+    .prepare("SELECT COALESCE(MAX(revision), 0) AS revision FROM common_chat_messages")
+    .get() as { revision: number };
+  return row.revision;
+}
+
+export function listCommonChatMessages(limit = 80): CommonChatMessage[] {
+  const safeLimit = Math.max(1, Math.min(300, Math.floor(limit)));
+  const rows = getDb()
+    .prepare(`${COMMON_CHAT_MESSAGE_SELECT} ORDER BY m.created_at DESC LIMIT ?`)
+    .all(safeLimit);
+
+  return rows.reverse().map(mapCommonChatMessage);
+}
+
+/** Messages changed after `revision`, oldest first. */
+export function listCommonChatMessagesSince(revision: number, limit = 300): CommonChatMessage[] {
+  const safeLimit = Math.max(1, Math.min(300, Math.floor(limit)));
+  return getDb()
+    .prepare(`${COMMON_CHAT_MESSAGE_SELECT} WHERE m.revision > ? ORDER BY m.revision ASC LIMIT ?`)
+    .all(revision, safeLimit)
+    .map(mapCommonChatMessage);
+}
+
+export function listPinnedCommonChatMessages(): CommonChatMessage[] {
+  return getDb()
+    .prepare(
+      `${COMMON_CHAT_MESSAGE_SELECT}
+       WHERE m.pinned_at IS NOT NULL AND m.deleted_at IS NULL
+       ORDER BY m.pinned_at ASC`
+    )
+    .all()
+    .map(mapCommonChatMessage);
+}
+
+export function getCommonChatMessage(id: string): CommonChatMessage | null {
+  const row = getDb().prepare(`${COMMON_CHAT_MESSAGE_SELECT} WHERE m.id = ?`).get(id);
+  return row ? mapCommonChatMessage(row) : null;
+}
+
+/** `botLabel` marks a model reply and is shown as its author. */
+export function addCommonChatMessage(
+  senderId: string,
+  text: string,
+  options: { botLabel?: string } = {}
+): CommonChatMessage {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const database = getDb();
+
+  database.transaction(() => {
+    const next = getCommonChatRevision() + 1;
+    database
+      .prepare(
+        `INSERT INTO common_chat_messages (id, sender_id, text, revision, bot_label, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(id, senderId, text, next, options.botLabel ?? null, now);
+
+    // Pinned messages are kept however old they get.
+    database
+      .prepare(
+        `DELETE FROM common_chat_messages
+         WHERE id IN (
+           SELECT id
+           FROM common_chat_messages
+           WHERE pinned_at IS NULL
+           ORDER BY created_at DESC
+           LIMIT -1 OFFSET 500
+         )`
+      )
+      .run();
+  })();
+
+  const message = getCommonChatMessage(id)!;
+  publishCommonChatEvent({ type: "message", message });
+  return message;
+}
+
+/**
+ * Applies `assignments` and moves the message to a new revision, so streams
+ * and `since=` fetches deliver the change like a new message.
+ */
+function reviseCommonChatMessage(id: string, assignments: string, params: unknown[]) {
+  const database = getDb();
+  const changed = database.transaction(() => {
+    const next = getCommonChatRevision() + 1;
+    return database
+      .prepare(`UPDATE common_chat_messages SET ${assignments}, revision = ? WHERE id = ?`)
+      .run(...params, next, id).changes;
+  })();
+  if (!changed) return null;
+
+  const message = getCommonChatMessage(id)!;
+  publishCommonChatEvent({ type: "message", message });
+  return message;
+}
+
+export function editCommonChatMessage(id: string, text: string) {
+  return reviseCommonChatMessage(id, "text = ?, edited_at = ?", [text, new Date().toISOString()]);
+}
+
+/** Leaves a tombstone: the row stays so connected clients can hide the text. */
+export function deleteCommonChatMessage(id: string, deletedBy: string) {
+  return reviseCommonChatMessage(
+    id,
+    "text = '', deleted_at = ?, deleted_by = ?, pinned_at = NULL, pinned_by = NULL",
+    [new Date().toISOString(), deletedBy]
+  );
+}
+
+export function setCommonChatMessagePinned(id: string, pinnedBy: string | null) {
+  return reviseCommonChatMessage(id, "pinned_at = ?, pinned_by = ?", [
+    pinnedBy ? new Date().toISOString() : null,
+    pinnedBy
+  ]);
+}
+
+/** Messages `senderId` posted since `since`, oldest first, for rate limiting. */
+export function listCommonChatPostTimes(senderId: string, since: string): string[] {
+  return getDb()
+    .prepare(
+      `SELECT created_at FROM common_chat_messages
+       WHERE sender_id = ? AND created_at > ?
+       ORDER BY created_at ASC`
+    )
+    .all(senderId, since)
+    .map((row: { created_at: string }) => row.created_at);
+}
+
+const COMMON_CHAT_MUTE_SELECT = `
+  SELECT m.user_id, m.muted_by, m.muted_until, m.created_at,
+         COALESCE(p.display_name, u.username) AS display_name
+  FROM common_chat_mutes m
+  LEFT JOIN users u ON u.id = m.user_id
+  LEFT JOIN common_chat_profiles p ON p.user_id = m.user_id`;
+
+function mapCommonChatMute(row: any): CommonChatMute {
+  return {
+    userId: row.user_id,
+    displayName: row.display_name ?? FORMER_PARTICIPANT_NAME,
+    mutedBy: row.muted_by,
+    mutedUntil: row.muted_until ?? null,
+    createdAt: row.created_at
+  };
+}
+
+/** Mutes still in force; expired ones are removed on the way. */
+export function listCommonChatMutes(): CommonChatMute[] {
+  const database = getDb();
+  database
+    .prepare("DELETE FROM common_chat_mutes WHERE muted_until IS NOT NULL AND muted_until <= ?")
+    .run(new Date().toISOString());
+  return database
+    .prepare(`${COMMON_CHAT_MUTE_SELECT} ORDER BY m.created_at DESC`)
+    .all()
+    .map(mapCommonChatMute);
+}
+
+export function getCommonChatMute(userId: string): CommonChatMute | null {
+  return listCommonChatMutes().find((mute) => mute.userId === userId) ?? null;
+}
+
+export function muteCommonChatUser(userId: string, mutedBy: string, mutedUntil: string | null) {
+  getDb()
+    .prepare(
+      `INSERT INTO common_chat_mutes (user_id, muted_by, muted_until, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         muted_by = excluded.muted_by,
+         muted_until = excluded.muted_until,
+         created_at = excluded.created_at`
+    )
+    .run(userId, mutedBy, mutedUntil, new Date().toISOString());
+  return getCommonChatMute(userId);
+}
+
+export function unmuteCommonChatUser(userId: string) {
+  return getDb().prepare("DELETE FROM common_chat_mutes WHERE user_id = ?").run(userId).changes > 0;
+}
+
+/** The stored profile, or the defaults: login as the name and a color from the user id. */
+export function getCommonChatProfile(user: AuthUser): CommonChatProfile {
+  const row = getDb()
+    .prepare("SELECT display_name, color FROM common_chat_profiles WHERE user_id = ?")
+    .get(user.id) as { display_name: string; color: string } | undefined;
+  return {
+    userId: user.id,
+    displayName: row?.display_name ?? user.username,
+    color: row?.color ?? getDefaultCommonChatColor(user.id)
+  };
+}
+
+/** Display names and logins of every account except `userId`, to keep names unique. */
+export function listOtherParticipantNames(userId: string): string[] {
+  return getDb()
+    .prepare(
+      `SELECT u.username AS name FROM users u WHERE u.id != ?
+       UNION ALL
+       SELECT p.display_name AS name FROM common_chat_profiles p WHERE p.user_id != ?`
+    )
+    .all(userId, userId)
+    .map((row: { name: string }) => row.name);
+}
+
+export function saveCommonChatProfile(profile: CommonChatProfile): CommonChatProfile {
+  getDb()
+    .prepare(
+      `INSERT INTO common_chat_profiles (user_id, display_name, color, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         display_name = excluded.display_name,
+         color = excluded.color,
+         updated_at = excluded.updated_at`
+    )
+    .run(profile.userId, profile.displayName, profile.color, new Date().toISOString());
+
+  publishCommonChatEvent({ type: "profile", profile });
+  return profile;
+}
@@ -0,0 +1,293 @@
+import * as XLSX from "@e965/xlsx";
+import JSZip from "jszip";
+import { extractText, getDocumentProxy } from "unpdf";
+
+const MAX_EXTRACTED_CHARS = 200000;
+const MAX_SHEET_ROWS = 1000;
+const MAX_SHEET_COLUMNS = 50;
+
+export type ExtractOptions = {
+  /** The whole document, without the caps that keep chat prompts small. */
+  full?: boolean;
+};
+
+export function truncate(text: string, options: ExtractOptions = {}) {
+  return !options.full && text.length > MAX_EXTRACTED_CHARS
+    ? `${text.slice(0, MAX_EXTRACTED_CHARS)}\n\n[Текст обрезан: показаны первые ${MAX_EXTRACTED_CHARS} символов]`
+    : text;
+}
+
+/** Text layer of every page, with page markers so the model can cite pages. */
+export async function extractPdfText(data: Buffer, options: ExtractOptions = {}) {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  const pages = text
+    .map((page, index) => {
+      const content = page.trim();
+      return content ? `--- Страница ${index + 1} из ${totalPages} ---\n${content}` : "";
+    })
+    .filter(Boolean);
+
+  return truncate(pages.join("\n\n"), options);
+}
+
+function formatCell(value: unknown) {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value ?? "")
+    .replace(/\r?\n/g, " ")
+    .replace(/\|/g, "\\|")
+    .trim();
+}
+
+function renderSheet(name: string, sheet: XLSX.WorkSheet, options: ExtractOptions) {
+  const maxRows = options.full ? Infinity : MAX_SHEET_ROWS;
+  const maxColumns = options.full ? Infinity : MAX_SHEET_COLUMNS;
+  const rows = XLSX.utils
+    .sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, blankrows: false, defval: "" })
+    .filter((row) => row.some((cell) => formatCell(cell)));
+  if (rows.length === 0) return "";
+
+  const width = Math.min(maxColumns, Math.max(...rows.map((row) => row.length)));
+  const lines = rows.slice(0, maxRows).map(
+    (row) => `| ${Array.from({ length: width }, (_, index) => formatCell(row[index])).join(" | ")} |`
+  );
+  lines.splice(1, 0, `|${" --- |".repeat(width)}`);
+
+  const notes: string[] = [];
+  if (rows.length > maxRows) {
+    notes.push(`[Показаны первые ${MAX_SHEET_ROWS} строк из ${rows.length}]`);
+  }
+  if (rows.some((row) => row.length > maxColumns)) {
+    notes.push(`[Показаны первые ${MAX_SHEET_COLUMNS} столбцов]`);
+  }
+
+  return [`### Лист «${name}»`, "", ...lines, ...notes].join("\n");
+}
+
+/** XLSX and legacy XLS workbooks, one markdown table per sheet. */
+export function extractSpreadsheetText(data: Buffer, options: ExtractOptions = {}) {
+  const workbook = XLSX.read(data, { type: "buffer", cellDates: true });
+  const sheets = workbook.SheetNames.map((name) =>
+    renderSheet(name, workbook.Sheets[name], options)
+  ).filter(Boolean);
+  return truncate(sheets.join("\n\n"), options);
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " "
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function tidyLines(text: string) {
+  return text
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function htmlToText(html: string) {
+  return tidyLines(
+    decodeEntities(
+      html
+        .replace(/<!--[\s\S]*?-->/g, "")
+        .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<\/(td|th)>/gi, "\t")
+        .replace(/<\/(p|div|h[1-6]|pre|tr|table|section|article|blockquote|title|ul|ol)>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+    )
+  );
+}
+
+function readXmlText(xml: string) {
+  return decodeEntities(xml.replace(/<[^>]+>/g, ""));
+}
+
+/** Slide order comes from presentation.xml, not from the part file names. */
+async function listSlidePaths(zip: JSZip) {
+  const presentation = await zip.file("ppt/presentation.xml")?.async("string");
+  const rels = await zip.file("ppt/_rels/presentation.xml.rels")?.async("string");
+  const targets = new Map<string, string>();
+  for (const match of rels?.matchAll(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (id && target) targets.set(id, target.replace(/^\/?(ppt\/)?/, "ppt/"));
+  }
+
+  const ordered = Array.from(presentation?.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g) ?? [])
+    .map((match) => targets.get(match[1]))
+    .filter((path): path is string => Boolean(path && zip.file(path)));
+  if (ordered.length > 0) return ordered;
+
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]));
+}
+
+/** Text of every PPTX slide, one paragraph per line, with slide markers. */
+export async function extractPresentationText(data: Buffer, options: ExtractOptions = {}) {
+  const zip = await JSZip.loadAsync(data);
+  const paths = await listSlidePaths(zip);
+
+  const slides = await Promise.all(
+    paths.map(async (path, index) => {
+      const xml = await zip.file(path)!.async("string");
+      const paragraphs = Array.from(xml.matchAll(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g))
+        .map((match) => readXmlText(match[0].replace(/<a:br\b[^>]*\/>/g, "\n")).trim())
+        .filter(Boolean);
+      return paragraphs.length
+        ? `--- Слайд ${index + 1} из ${paths.length} ---\n${paragraphs.join("\n")}`
+        : "";
+    })
+  );
+
+  return truncate(slides.filter(Boolean).join("\n\n"), options);
+}
+
+/** OpenDocument text (ODT): paragraphs and headings from content.xml. */
+export async function extractOpenDocumentText(data: Buffer, options: ExtractOptions = {}) {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file("content.xml")?.async("string");
+  if (!xml) throw new Error("content.xml not found");
+
+  const body = xml.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] ?? xml;
+  const text = body
+    .replace(/<text:tracked-changes>[\s\S]*?<\/text:tracked-changes>/g, "")
+    .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, count: string) => " ".repeat(Number(count)))
+    .replace(/<text:s\s*\/>/g, " ")
+    .replace(/<text:tab\s*\/>/g, "\t")
+    .replace(/<text:line-break\s*\/>/g, "\n")
+    .replace(/<text:list-item\b[^>]*>/g, "- ")
+    .replace(/<\/(text:p|text:h)>/g, "\n");
+
+  return truncate(tidyLines(readXmlText(text)), options);
+}
+
+/** Groups whose content is formatting data rather than document text. */
+const RTF_SKIPPED_GROUPS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "xmlnstbl",
+  "generator"
+]);
+
+const RTF_BREAKS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  row: "\n",
+  tab: "\t",
+  cell: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”"
+};
+
+function decodeCodepage(bytes: number[], codepage: string) {
+  try {
+    return new TextDecoder(codepage).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder("windows-1252").decode(new Uint8Array(bytes));
+  }
+}
+
+/**
+ * Plain text of an RTF document. `\'hh` bytes are decoded with the code page
+ * from `\ansicpg`, `\uN` characters directly (skipping their fallbacks).
+ */
+export function extractRtfText(data: Buffer, options: ExtractOptions = {}) {
+  const rtf = data.toString("latin1");
+  const output: string[] = [];
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  const pendingBytes: number[] = [];
+  let codepage = "windows-1252";
+  let skip = false;
+  let unicodeSkip = 1;
+  let fallbackLeft = 0;
+
+  const write = (text: string) => {
+    if (pendingBytes.length > 0) {
+      output.push(decodeCodepage(pendingBytes, codepage));
+      pendingBytes.length = 0;
+    }
+    output.push(text);
+  };
+
+  const tokens = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+  for (const [, word, arg, hex, symbol, brace, text] of rtf.matchAll(tokens)) {
+    if (brace === "{") {
+      stack.push({ skip, unicodeSkip });
+    } else if (brace === "}") {
+      ({ skip, unicodeSkip } = stack.pop() ?? { skip, unicodeSkip });
+      fallbackLeft = 0;
+    } else if (hex) {
+      if (fallbackLeft > 0) fallbackLeft -= 1;
+      else if (!skip) pendingBytes.push(parseInt(hex, 16));
+    } else if (symbol) {
+      if (symbol === "*") skip = true;
+      else if (skip) continue;
+      else if (symbol === "~") write(" ");
+      else if (symbol === "_") write("-");
+      else if (symbol === "\n" || symbol === "\r") write("\n");
+      else if ("\\{}".includes(symbol)) write(symbol);
+    } else if (word) {
+      if (RTF_SKIPPED_GROUPS.has(word)) skip = true;
+      else if (word === "ansicpg" && arg) codepage = `windows-${arg}`;
+      else if (word === "uc" && arg) unicodeSkip = Number(arg);
+      else if (skip) continue;
+      else if (word === "u" && arg) {
+        const code = Number(arg);
+        write(String.fromCharCode(code < 0 ? code + 65536 : code));
+        fallbackLeft = unicodeSkip;
+      } else if (RTF_BREAKS[word]) write(RTF_BREAKS[word]);
+    } else if (text && !skip) {
+      const visible = text.slice(Math.min(fallbackLeft, text.length));
+      fallbackLeft = Math.max(0, fallbackLeft - text.length);
+      if (visible) write(visible);
+    }
+  }
+  write("");
+
+  return truncate(tidyLines(output.join("")), options);
+}
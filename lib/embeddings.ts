@@ -0,0 +1,230 @@
+import OpenAI from "openai";
+import { calculateCost } from "@/lib/pricing";
+
+/** Tokens billed for an embedding request, recorded by the caller. */
+export type EmbeddingUsage = {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  /** USD; null when the model has no known price. */
+  cost: number | null;
+};
+
+/** Limits for one embedding call to a server. */
+type EmbedRequest = {
+  timeoutMs: number;
+  maxRetries: number;
+  signal?: AbortSignal;
+  /** Called after each batch, so tokens spent before a failure are still billed. */
+  onTokens?: (tokens: number) => void;
+};
+
+type EmbeddingEngine = {
+  id: string;
+  isConfigured: () => boolean;
+  model: () => string;
+  /** Lowest cosine similarity that still counts as relevant for this engine. */
+  minScore: number;
+  embed: (texts: string[], request: EmbedRequest) => Promise<number[][]>;
+};
+
+/** Uploads can wait for a slow server; a chat message should not wait long for its search. */
+const DOCUMENT_REQUEST: EmbedRequest = { timeoutMs: 60 * 1000, maxRetries: 2 };
+const QUERY_TIMEOUT_MS = 5000;
+
+const API_BATCH_SIZE = 64;
+const HASH_DIMENSIONS = 1024;
+const HASH_STEM_LENGTH = 6;
+
+let localClient: OpenAI | null = null;
+let openAiClient: OpenAI | null = null;
+
+function getLocalClient() {
+  if (!localClient) {
+    localClient = new OpenAI({
+      baseURL: process.env.LOCAL_EMBEDDING_BASE_URL,
+      apiKey: process.env.LOCAL_EMBEDDING_API_KEY || "local"
+    });
+  }
+  return localClient;
+}
+
+function getOpenAiClient() {
+  if (!openAiClient) {
+    openAiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openAiClient;
+}
+
+function normalize(vector: number[]) {
+  const length = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+async function embedWith(client: OpenAI, model: string, texts: string[], request: EmbedRequest) {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += API_BATCH_SIZE) {
+    const result = await client.embeddings.create(
+      { model, input: texts.slice(start, start + API_BATCH_SIZE) },
+      { timeout: request.timeoutMs, maxRetries: request.maxRetries, signal: request.signal }
+    );
+    const batch = [...result.data].sort((a, b) => a.index - b.index);
+    vectors.push(...batch.map((item) => normalize(item.embedding)));
+    request.onTokens?.(result.usage?.prompt_tokens ?? 0);
+  }
+  return vectors;
+}
+
+/** FNV-1a, enough to spread terms over the hash dimensions. */
+function hashTerm(term: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < term.length; index += 1) {
+    hash ^= term.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag of words: word prefixes stand in for stems (Russian endings vary a
+ * lot), character trigrams catch partial matches. No model, no network.
+ */
+function hashEmbed(text: string) {
+  const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+  const add = (term: string, weight: number) => {
+    const hash = hashTerm(term);
+    vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (word.length < 2) continue;
+    add(`w:${word.slice(0, HASH_STEM_LENGTH)}`, 1);
+    const padded = ` ${word} `;
+    for (let index = 0; index + 3 <= padded.length; index += 1) {
+      add(`t:${padded.slice(index, index + 3)}`, 0.3);
+    }
+  }
+
+  // Damp repeated terms so one frequent word does not dominate the chunk.
+  return normalize(vector.map((value) => Math.sign(value) * Math.log1p(Math.abs(value))));
+}
+
+/** OpenAI-compatible embedding servers: Ollama, LocalAI, text-embeddings-inference. */
+const localEngine: EmbeddingEngine = {
+  id: "local",
+  isConfigured: () => Boolean(process.env.LOCAL_EMBEDDING_BASE_URL),
+  model: () => process.env.LOCAL_EMBEDDING_MODEL || "nomic-embed-text",
+  minScore: 0.3,
+  embed: (texts, request) => embedWith(getLocalClient(), localEngine.model(), texts, request)
+};
+
+const openAiEngine: EmbeddingEngine = {
+  id: "openai",
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  model: () => process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small",
+  minScore: 0.25,
+  embed: (texts, request) => embedWith(getOpenAiClient(), openAiEngine.model(), texts, request)
+};
+
+const hashEngine: EmbeddingEngine = {
+  id: "hash",
+  isConfigured: () => true,
+  model: () => `v1-${HASH_DIMENSIONS}`,
+  minScore: 0.12,
+  embed: async (texts) => texts.map(hashEmbed)
+};
+
+const ENGINES = [localEngine, openAiEngine, hashEngine];
+
+function getEngineKey(engine: EmbeddingEngine) {
+  return `${engine.id}:${engine.model()}`;
+}
+
+function toEmbeddingUsage(engine: EmbeddingEngine, inputTokens: number): EmbeddingUsage | null {
+  if (inputTokens === 0) return null;
+  const model = engine.model();
+  const tokens = { inputTokens, outputTokens: 0, cachedTokens: 0 };
+  return { provider: engine.id, model, inputTokens, cost: calculateCost(engine.id, model, tokens) };
+}
+
+/**
+ * EMBEDDING_ENGINE picks the engine explicitly; otherwise a local server is
+ * preferred, then OpenAI, then the built-in hashed vectors.
+ */
+function getEmbeddingEngine() {
+  const requested = process.env.EMBEDDING_ENGINE;
+  const engine = requested ? ENGINES.find((item) => item.id === requested) : null;
+  return engine?.isConfigured() ? engine : ENGINES.find((item) => item.isConfigured())!;
+}
+
+/**
+ * Vectors for new documents, with the key that identifies their vector space.
+ * When the engine fails the document is embedded with hashed vectors instead,
+ * so an outage does not block uploads; its key records which space it is in.
+ * `hashVectors` are stored next to a server's vectors so the document stays
+ * searchable while that server is down; they are null for hashed documents.
+ */
+export async function embedDocuments(texts: string[]) {
+  const engine = getEmbeddingEngine();
+  const hashVectors = texts.map(hashEmbed);
+  let tokens = 0;
+  if (engine !== hashEngine) {
+    try {
+      const vectors = await engine.embed(texts, {
+        ...DOCUMENT_REQUEST,
+        onTokens: (spent) => (tokens += spent)
+      });
+      const usage = toEmbeddingUsage(engine, tokens);
+      return { model: getEngineKey(engine), vectors, hashVectors, usage };
+    } catch {
+      // Falls back to the hashed vectors below; batches embedded before the failure are still billed.
+    }
+  }
+  return {
+    model: getEngineKey(hashEngine),
+    vectors: hashVectors,
+    hashVectors: null,
+    usage: toEmbeddingUsage(engine, tokens)
+  };
+}
+
+/**
+ * Query vector in the space of `model`, or null when that engine is no longer
+ * configured, fails or does not answer within QUERY_TIMEOUT_MS; the caller
+ * then compares the chunks' stored hashed vectors with `embedQueryWithHash`.
+ */
+export async function embedQuery(model: string, text: string, signal?: AbortSignal) {
+  const engine = ENGINES.find((item) => item.isConfigured() && getEngineKey(item) === model);
+  if (!engine) return null;
+  try {
+    let tokens = 0;
+    const [vector] = await engine.embed([text], {
+      timeoutMs: QUERY_TIMEOUT_MS,
+      maxRetries: 0,
+      signal,
+      onTokens: (spent) => (tokens += spent)
+    });
+    return { vector, minScore: engine.minScore, usage: toEmbeddingUsage(engine, tokens) };
+  } catch {
+    return null;
+  }
+}
+
+export function embedQueryWithHash(text: string) {
+  return { vector: hashEmbed(text), minScore: hashEngine.minScore };
+}
+
+/** Hashed vectors for chunks stored before they were kept at index time. */
+export function embedWithHash(texts: string[]) {
+  return texts.map(hashEmbed);
+}
+
+/** Both vectors are unit length, so the dot product is the cosine similarity. */
+export function cosineSimilarity(a: Float32Array | number[], b: Float32Array | number[]) {
+  let total = 0;
+  const length = Math.min(a.length, b.length);
+  for (let index = 0; index < length; index += 1) {
+    total += a[index] * b[index];
+  }
+  return total;
+}
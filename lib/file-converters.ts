@@ -0,0 +1,242 @@
+import path from "path";
+import mammoth from "mammoth";
+import {
+  extractOpenDocumentText,
+  extractPdfText,
+  extractPresentationText,
+  extractRtfText,
+  extractSpreadsheetText,
+  htmlToText,
+  truncate,
+  type ExtractOptions
+} from "@/lib/document-text";
+
+export type FileConverter = {
+  /** Format name shown in the upload hint. */
+  label: string;
+  extensions: string[];
+  /** The first entry is stored for uploads that arrive without a usable type. */
+  mimeTypes: string[];
+  /** Completes "Содержимое … <file name>:" in the text part. */
+  noun: "файла" | "таблицы" | "презентации";
+  /** Uploaded as-is when the provider lists it in `nativeFileTypes`. */
+  nativeMimeType?: string;
+  convert: (data: Buffer, fileName: string, options?: ExtractOptions) => Promise<string> | string;
+};
+
+export type FileFormat = {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+};
+
+/** Source extensions and the language tag of their code block. */
+const CODE_LANGUAGES: Record<string, string> = {
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "jsx",
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "tsx",
+  ".py": "python",
+  ".rb": "ruby",
+  ".php": "php",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".kts": "kotlin",
+  ".scala": "scala",
+  ".groovy": "groovy",
+  ".gradle": "groovy",
+  ".swift": "swift",
+  ".go": "go",
+  ".rs": "rust",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".hpp": "cpp",
+  ".cs": "csharp",
+  ".fs": "fsharp",
+  ".vb": "vbnet",
+  ".dart": "dart",
+  ".lua": "lua",
+  ".pl": "perl",
+  ".r": "r",
+  ".hs": "haskell",
+  ".ex": "elixir",
+  ".exs": "elixir",
+  ".erl": "erlang",
+  ".clj": "clojure",
+  ".sh": "bash",
+  ".bash": "bash",
+  ".zsh": "bash",
+  ".ps1": "powershell",
+  ".bat": "batch",
+  ".sql": "sql",
+  ".graphql": "graphql",
+  ".proto": "protobuf",
+  ".css": "css",
+  ".scss": "scss",
+  ".less": "less",
+  ".vue": "vue",
+  ".svelte": "svelte",
+  ".xml": "xml",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".toml": "toml",
+  ".ini": "ini",
+  ".tf": "hcl"
+};
+
+/** UTF-8 (with or without BOM), UTF-16 with BOM, otherwise Windows-1251. */
+function decodeText(data: Buffer) {
+  if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder("utf-16le").decode(data);
+  if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder("utf-16be").decode(data);
+  if (data.includes(0)) throw new Error("Binary content");
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder("windows-1251").decode(data);
+  }
+}
+
+/** Fence longer than any backtick run inside, so the block cannot end early. */
+function toCodeBlock(language: string, text: string) {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${text.replace(/\n$/, "")}\n${fence}`;
+}
+
+function convertJson(data: Buffer, _fileName: string, options?: ExtractOptions) {
+  const text = decodeText(data).trim();
+  let formatted = text;
+  try {
+    formatted = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Broken JSON is still worth showing to the model as it is.
+  }
+  return text ? toCodeBlock("json", truncate(formatted, options)) : "";
+}
+
+function convertCode(data: Buffer, fileName: string, options?: ExtractOptions) {
+  const text = decodeText(data);
+  const language = CODE_LANGUAGES[path.extname(fileName).toLowerCase()] ?? "";
+  return text.trim() ? toCodeBlock(language, truncate(text, options)) : "";
+}
+
+const FILE_CONVERTERS: FileConverter[] = [
+  {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+    noun: "файла",
+    nativeMimeType: "application/pdf",
+    convert: (data, _fileName, options) => extractPdfText(data, options)
+  },
+  {
+    label: "DOCX",
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    noun: "файла",
+    convert: async (data, _fileName, options) =>
+      truncate((await mammoth.extractRawText({ buffer: data })).value.trim(), options)
+  },
+  {
+    label: "ODT",
+    extensions: [".odt"],
+    mimeTypes: ["application/vnd.oasis.opendocument.text"],
+    noun: "файла",
+    convert: (data, _fileName, options) => extractOpenDocumentText(data, options)
+  },
+  {
+    label: "RTF",
+    extensions: [".rtf"],
+    mimeTypes: ["application/rtf", "text/rtf"],
+    noun: "файла",
+    convert: (data, _fileName, options) => extractRtfText(data, options)
+  },
+  {
+    label: "PPTX",
+    extensions: [".pptx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    noun: "презентации",
+    convert: (data, _fileName, options) => extractPresentationText(data, options)
+  },
+  {
+    label: "XLSX, XLS",
+    extensions: [".xlsx", ".xls"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-excel"
+    ],
+    noun: "таблицы",
+    convert: (data, _fileName, options) => extractSpreadsheetText(data, options)
+  },
+  {
+    label: "CSV",
+    extensions: [".csv", ".tsv"],
+    mimeTypes: ["text/csv", "text/tab-separated-values"],
+    noun: "таблицы",
+    convert: (data, _fileName, options) => truncate(decodeText(data).trim(), options)
+  },
+  {
+    label: "HTML",
+    extensions: [".html", ".htm"],
+    mimeTypes: ["text/html"],
+    noun: "файла",
+    convert: (data, _fileName, options) => truncate(htmlToText(decodeText(data)), options)
+  },
+  {
+    label: "JSON",
+    extensions: [".json"],
+    mimeTypes: ["application/json"],
+    noun: "файла",
+    convert: convertJson
+  },
+  {
+    label: "TXT, MD",
+    extensions: [".txt", ".md", ".markdown", ".log"],
+    mimeTypes: ["text/plain", "text/markdown"],
+    noun: "файла",
+    convert: (data, _fileName, options) => truncate(decodeText(data).trim(), options)
+  },
+  {
+    label: "исходный код",
+    extensions: Object.keys(CODE_LANGUAGES),
+    mimeTypes: [],
+    noun: "файла",
+    convert: convertCode
+  }
+];
+
+/**
+ * The extension wins over the declared type: browsers report `.ts` as
+ * `video/mp2t` and leave most source files untyped.
+ */
+export function findFileConverter(fileName: string, mimeType: string) {
+  const extension = path.extname(fileName).toLowerCase();
+  return (
+    FILE_CONVERTERS.find((converter) => converter.extensions.includes(extension)) ??
+    FILE_CONVERTERS.find((converter) => converter.mimeTypes.includes(mimeType)) ??
+    null
+  );
+}
+
+/** MIME type stored with an uploaded file. */
+export function getFileMimeType(fileName: string, declaredType: string) {
+  const converter = findFileConverter(fileName, declaredType);
+  if (!converter) return declaredType || "application/octet-stream";
+  if (converter.mimeTypes.includes(declaredType)) return declaredType;
+  return converter.mimeTypes[0] ?? "text/plain";
+}
+
+export function listFileFormats(): FileFormat[] {
+  return FILE_CONVERTERS.map(({ label, extensions, mimeTypes }) => ({
+    label,
+    extensions,
+    mimeTypes
+  }));
+}
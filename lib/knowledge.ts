@@ -0,0 +1,281 @@
+import {
+  addKnowledgeDocument,
+  listKnowledgeChunks,
+  recordUsage,
+  saveKnowledgeChunkHashEmbeddings,
+  type KnowledgeChunk,
+  type KnowledgeSource
+} from "@/lib/db";
+import {
+  cosineSimilarity,
+  embedDocuments,
+  embedQuery,
+  embedQueryWithHash,
+  embedWithHash,
+  type EmbeddingUsage
+} from "@/lib/embeddings";
+import { findFileConverter } from "@/lib/file-converters";
+
+type TextChunk = {
+  text: string;
+  page: number | null;
+};
+
+export type KnowledgeContext = {
+  instructions: string;
+  sources: KnowledgeSource[];
+};
+
+/** Spaces with a document library; the temporary space 4 has none. */
+export const KNOWLEDGE_SPACES = [1, 2, 3];
+
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const DEFAULT_TOP_K = 5;
+/** About 1700 chunks; larger documents are better split before upload. */
+const MAX_DOCUMENT_CHARS = 2000000;
+
+/** Page and slide markers written by the PDF and PPTX converters. */
+const PAGE_MARKER = /^--- (?:Страница|Слайд) (\d+) из \d+ ---$/gm;
+
+function parseTopK(value: string | undefined) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, 20) : DEFAULT_TOP_K;
+}
+
+const KNOWLEDGE_TOP_K = parseTopK(process.env.KNOWLEDGE_TOP_K);
+
+function saveEmbeddingUsage(userId: string, space: number, usage: EmbeddingUsage | null) {
+  if (!usage) return;
+  recordUsage({
+    userId,
+    space,
+    chatId: null,
+    messageId: null,
+    kind: "embedding",
+    provider: usage.provider,
+    model: usage.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: 0,
+    cachedTokens: 0,
+    cost: usage.cost
+  });
+}
+
+/** Text embedded for a chunk; the document name helps when a question mentions the document. */
+function getChunkEmbeddingText(documentName: string, text: string) {
+  return `${documentName}\n${text}`;
+}
+
+/** Splits text into sections by page markers; text before the first marker has no page. */
+function splitPages(text: string) {
+  const sections: TextChunk[] = [];
+  let page: number | null = null;
+  let start = 0;
+
+  for (const match of text.matchAll(PAGE_MARKER)) {
+    sections.push({ text: text.slice(start, match.index), page });
+    page = Number(match[1]);
+    start = match.index + match[0].length;
+  }
+  sections.push({ text: text.slice(start), page });
+
+  return sections.filter((section) => section.text.trim());
+}
+
+/** Tail of a finished chunk repeated at the start of the next, cut at a word boundary. */
+function getOverlap(text: string) {
+  if (text.length <= CHUNK_OVERLAP_CHARS) return "";
+  const tail = text.slice(-CHUNK_OVERLAP_CHARS);
+  const space = tail.search(/\s/);
+  return space >= 0 ? tail.slice(space + 1) : "";
+}
+
+/** Paragraphs longer than a chunk are cut at sentence ends, or at spaces. */
+function splitLongParagraph(paragraph: string) {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > CHUNK_CHARS) {
+    const window = rest.slice(0, CHUNK_CHARS);
+    const sentenceEnd = Math.max(window.lastIndexOf(". "), window.lastIndexOf("! "), window.lastIndexOf("? "));
+    const cut =
+      sentenceEnd > CHUNK_CHARS / 2 ? sentenceEnd + 1 : Math.max(window.lastIndexOf(" "), CHUNK_CHARS / 2);
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Chunks of about CHUNK_CHARS built from whole paragraphs, with a short
+ * overlap between neighbours. Chunks never span pages, so each cites one page.
+ */
+export function chunkText(text: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitPages(text)) {
+    const paragraphs = section.text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .flatMap(splitLongParagraph);
+
+    let current = "";
+    let hasNewText = false;
+    for (const paragraph of paragraphs) {
+      if (hasNewText && current.length + paragraph.length + 2 > CHUNK_CHARS) {
+        chunks.push({ text: current, page: section.page });
+        current = getOverlap(current);
+        hasNewText = false;
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+      hasNewText = true;
+    }
+    if (hasNewText) {
+      chunks.push({ text: current, page: section.page });
+    }
+  }
+
+  return chunks;
+}
+
+/** Extracts, chunks and embeds an uploaded file, then stores it in the account's space library. */
+export async function indexKnowledgeDocument(document: {
+  space: number;
+  userId: string;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}) {
+  const converter = findFileConverter(document.name, document.mimeType);
+  if (!converter) {
+    throw new Error(`Формат файла ${document.name} не поддерживается.`);
+  }
+
+  // Indexed in full: a truncated document would silently drop its tail from search.
+  let text: string;
+  try {
+    text = await converter.convert(document.data, document.name, { full: true });
+  } catch {
+    throw new Error(`Не удалось прочитать файл ${document.name}.`);
+  }
+  if (text.length > MAX_DOCUMENT_CHARS) {
+    throw new Error(
+      `В файле ${document.name} слишком много текста: ${text.length} символов, ` +
+        `максимум ${MAX_DOCUMENT_CHARS}. Разделите документ на части.`
+    );
+  }
+
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new Error(`В файле ${document.name} нет текста для поиска.`);
+  }
+
+  const { model, vectors, hashVectors, usage } = await embedDocuments(
+    chunks.map((chunk) => getChunkEmbeddingText(document.name, chunk.text))
+  );
+  saveEmbeddingUsage(document.userId, document.space, usage);
+
+  return addKnowledgeDocument({
+    ...document,
+    embeddingModel: model,
+    chunks: chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: vectors[index],
+      hashEmbedding: hashVectors?.[index] ?? null
+    }))
+  });
+}
+
+/**
+ * Top chunks of the account's space library for `query`. Chunks are compared
+ * with a query vector from the engine that embedded them; when that engine is
+ * gone, failing or slow, the chunks' hashed vectors kept at index time are
+ * compared with a hashed query instead, as for documents indexed during an outage.
+ */
+export async function searchKnowledge(
+  userId: string,
+  space: number,
+  query: string,
+  signal?: AbortSignal,
+  limit = KNOWLEDGE_TOP_K
+) {
+  const chunks = listKnowledgeChunks(userId, space);
+  if (chunks.length === 0 || !query.trim()) return [];
+
+  const byModel = new Map<string, KnowledgeChunk[]>();
+  for (const chunk of chunks) {
+    const list = byModel.get(chunk.embeddingModel) ?? [];
+    list.push(chunk);
+    byModel.set(chunk.embeddingModel, list);
+  }
+
+  const scored: Array<{ chunk: KnowledgeChunk; score: number }> = [];
+  for (const [model, modelChunks] of byModel) {
+    const embedded = await embedQuery(model, query, signal);
+    if (embedded) {
+      saveEmbeddingUsage(userId, space, embedded.usage);
+      for (const chunk of modelChunks) {
+        const score = cosineSimilarity(embedded.vector, chunk.embedding);
+        if (score >= embedded.minScore) scored.push({ chunk, score });
+      }
+      continue;
+    }
+
+    const missing = modelChunks.filter((chunk) => !chunk.hashEmbedding);
+    if (missing.length > 0) {
+      const vectors = embedWithHash(
+        missing.map((chunk) => getChunkEmbeddingText(chunk.documentName, chunk.text))
+      );
+      saveKnowledgeChunkHashEmbeddings(
+        missing.map((chunk, index) => ({ id: chunk.id, vector: vectors[index] }))
+      );
+      missing.forEach((chunk, index) => {
+        chunk.hashEmbedding = new Float32Array(vectors[index]);
+      });
+    }
+
+    const hashed = embedQueryWithHash(query);
+    for (const chunk of modelChunks) {
+      const score = cosineSimilarity(hashed.vector, chunk.hashEmbedding!);
+      if (score >= hashed.minScore) scored.push({ chunk, score });
+    }
+  }
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** Excerpts for the system instructions, numbered so the model can cite them as [n]. */
+export function buildKnowledgeContext(
+  results: Array<{ chunk: KnowledgeChunk }>
+): KnowledgeContext | null {
+  if (results.length === 0) return null;
+
+  const sources: KnowledgeSource[] = [];
+  const excerpts = results.map(({ chunk }) => {
+    let source = sources.find(
+      (item) => item.documentId === chunk.documentId && item.page === chunk.page
+    );
+    if (!source) {
+      source = {
+        index: sources.length + 1,
+        documentId: chunk.documentId,
+        name: chunk.documentName,
+        page: chunk.page
+      };
+      sources.push(source);
+    }
+    const page = chunk.page ? `, стр. ${chunk.page}` : "";
+    return `[${source.index}] ${chunk.documentName}${page}\n${chunk.text}`;
+  });
+
+  return {
+    instructions:
+      "Ниже фрагменты документов из базы знаний раздела. Если они относятся к вопросу, опирайся на них " +
+      "и ставь номер источника в квадратных скобках, например [1]. Если в них нет ответа, скажи об этом " +
+      "и отвечай из общих знаний.\n\n" +
+      excerpts.join("\n\n"),
+    sources
+  };
+}
@@ -0,0 +1,121 @@
+import {
+  addLoginAuditEntry,
+  clearLoginThrottle,
+  getLoginThrottles,
+  saveLoginThrottle,
+  type LoginThrottle
+} from "@/lib/db";
+
+type ThrottlePolicy = {
+  freeAttempts: number;
+};
+
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 5 };
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 20 };
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** Recorded in the audit log when the client address is not known. */
+const UNKNOWN_IP = "unknown";
+
+function accountKey(username: string) {
+  return `user:${username.toLowerCase()}`;
+}
+
+function ipKey(ip: string) {
+  return `ip:${ip}`;
+}
+
+/**
+ * Throttle buckets an attempt counts against. Without a known client address
+ * only the account is throttled: one shared bucket would let any client lock
+ * everyone out.
+ */
+function getThrottlePolicies(username: string, ip: string) {
+  const policies = new Map([[accountKey(username), ACCOUNT_POLICY]]);
+  if (ip !== UNKNOWN_IP) policies.set(ipKey(ip), IP_POLICY);
+  return policies;
+}
+
+/**
+ * Number of reverse proxies in front of the app. Forwarding headers are
+ * client-controlled unless a proxy we trust rewrote them, so without
+ * TRUSTED_PROXY_HOPS they are ignored and logins are throttled per account only.
+ */
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+export function getClientIp(req: Request) {
+  if (TRUSTED_PROXY_HOPS === 0) return UNKNOWN_IP;
+
+  // Each trusted proxy appends the address it saw, so the client is the
+  // entry that many places from the right; anything before it is spoofable.
+  const forwardedFor = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip =
+    forwardedFor.length >= TRUSTED_PROXY_HOPS
+      ? forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS]
+      : req.headers.get("x-real-ip")?.trim();
+  return ip || UNKNOWN_IP;
+}
+
+/** Lockout doubles with every failure past the free attempts. */
+function getLockoutMs(failures: number, policy: ThrottlePolicy) {
+  const excess = failures - policy.freeAttempts;
+  if (excess < 0) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** excess, MAX_LOCKOUT_MS);
+}
+
+function isStale(throttle: LoginThrottle, now: number) {
+  return now - Date.parse(throttle.lastFailureAt) > FORGET_AFTER_MS;
+}
+
+/** Returns the number of seconds the caller has to wait, or 0. */
+export function getLoginRetryAfter(username: string, ip: string) {
+  const now = Date.now();
+  const lockedUntil = getLoginThrottles([...getThrottlePolicies(username, ip).keys()])
+    .map((throttle) => (throttle.lockedUntil ? Date.parse(throttle.lockedUntil) : 0))
+    .reduce((latest, value) => Math.max(latest, value), 0);
+
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+export function registerLoginFailure(attempt: {
+  username: string;
+  ip: string;
+  userAgent: string | null;
+  reason: string;
+}) {
+  const now = Date.now();
+  const policies = getThrottlePolicies(attempt.username, attempt.ip);
+  const existing = new Map(
+    getLoginThrottles([...policies.keys()]).map((throttle) => [throttle.key, throttle])
+  );
+
+  for (const [key, policy] of policies) {
+    const previous = existing.get(key);
+    const failures = previous && !isStale(previous, now) ? previous.failures + 1 : 1;
+    const lockoutMs = getLockoutMs(failures, policy);
+
+    saveLoginThrottle({
+      key,
+      failures,
+      lastFailureAt: new Date(now).toISOString(),
+      lockedUntil: lockoutMs ? new Date(now + lockoutMs).toISOString() : null
+    });
+  }
+
+  addLoginAuditEntry(attempt);
+  return getLoginRetryAfter(attempt.username, attempt.ip);
+}
+
+export function registerLoginSuccess(username: string) {
+  clearLoginThrottle(accountKey(username));
+}
+
+export function formatRetryAfter(seconds: number) {
+  if (seconds < 60) return `${seconds} сек.`;
+  return `${Math.ceil(seconds / 60)} мин.`;
+}
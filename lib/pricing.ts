@@ -0,0 +1,117 @@
+import type { TokenUsage } from "@/lib/providers";
+
+/** USD per million tokens. */
+export type ModelPrice = {
+  input: number;
+  cachedInput: number;
+  output: number;
+};
+
+/**
+ * List prices of the default models. Keys match a model name exactly or as a
+ * prefix (the longest match wins); MODEL_PRICES overrides or extends them.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-5.2": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "text-embedding-3-small": { input: 0.02, cachedInput: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, cachedInput: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, cachedInput: 0.1, output: 0 },
+  "gpt-4o-mini-transcribe": { input: 3, cachedInput: 3, output: 5 },
+  "gpt-4o-transcribe": { input: 6, cachedInput: 6, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gemini-2.5-flash-lite": { input: 0.1, cachedInput: 0.01, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, cachedInput: 0.03, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "claude-haiku-4-5": { input: 1, cachedInput: 0.1, output: 5 },
+  "claude-sonnet-4": { input: 3, cachedInput: 0.3, output: 15 },
+  "claude-opus-4": { input: 15, cachedInput: 1.5, output: 75 }
+};
+
+/** USD per minute of audio for speech-to-text models billed by duration. */
+const AUDIO_MINUTE_PRICES: Record<string, number> = {
+  "whisper-1": 0.006
+};
+
+const FREE_PROVIDERS = new Set(["local", "mock"]);
+
+let prices: Record<string, ModelPrice> | null = null;
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return (
+    Boolean(price) &&
+    typeof price === "object" &&
+    [price.input, price.output].every((item) => typeof item === "number" && item >= 0) &&
+    (price.cachedInput === undefined ||
+      (typeof price.cachedInput === "number" && price.cachedInput >= 0))
+  );
+}
+
+function getPrices() {
+  if (prices) return prices;
+
+  prices = { ...DEFAULT_PRICES };
+  try {
+    const overrides = JSON.parse(process.env.MODEL_PRICES || "{}") as Record<string, unknown>;
+    for (const [model, price] of Object.entries(overrides)) {
+      if (isModelPrice(price)) {
+        prices[model] = { ...price, cachedInput: price.cachedInput ?? price.input };
+      }
+    }
+  } catch {
+    // Invalid MODEL_PRICES leaves the built-in prices in place.
+  }
+  return prices;
+}
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const table = getPrices();
+  if (table[model]) return table[model];
+  if (FREE_PROVIDERS.has(provider)) return { input: 0, cachedInput: 0, output: 0 };
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+}
+
+/**
+ * Highest input and output price in the table, charged against cost caps for
+ * models without a price so that they cannot be used to get around the caps.
+ */
+export function getFallbackPrice(): ModelPrice {
+  const table = Object.values(getPrices());
+  const input = Math.max(...table.map((price) => price.input));
+  return {
+    input,
+    cachedInput: input,
+    output: Math.max(...table.map((price) => price.output))
+  };
+}
+
+/** Cost in USD, or null when the model has no known price. */
+export function calculateCost(provider: string, model: string, usage: TokenUsage) {
+  const price = getModelPrice(provider, model);
+  if (!price) return null;
+
+  const cachedTokens = Math.min(usage.cachedTokens, usage.inputTokens);
+  return (
+    ((usage.inputTokens - cachedTokens) * price.input +
+      cachedTokens * price.cachedInput +
+      usage.outputTokens * price.output) /
+    1000000
+  );
+}
+
+/** Cost in USD of transcribing `seconds` of audio, or null when the price is unknown. */
+export function calculateAudioCost(provider: string, model: string, seconds: number) {
+  if (FREE_PROVIDERS.has(provider)) return 0;
+  const price = AUDIO_MINUTE_PRICES[model];
+  return price === undefined ? null : (seconds / 60) * price;
+}
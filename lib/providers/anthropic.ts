@@ -0,0 +1,211 @@
+import {
+  createIdleTimeout,
+  createNetworkErrorMapper,
+  parseContextWindow,
+  parseJson,
+  parseModelList,
+  readApiError,
+  readSseData,
+  unsupportedFileNote
+} from "./shared";
+import type { GenerateRequest, ProviderAdapter, ProviderMessage, TokenUsage } from "./types";
+
+type AnthropicContent =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "document"; source: { type: "base64"; media_type: string; data: string } };
+
+type AnthropicPayload = {
+  model: string;
+  max_tokens: number;
+  temperature?: number;
+  system?: string;
+  messages: Array<{ role: "user" | "assistant"; content: AnthropicContent[] }>;
+};
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+const ANTHROPIC_MODEL = process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5";
+
+function toContent(message: ProviderMessage): AnthropicContent[] {
+  return message.parts
+    .filter((part) => message.role === "user" || part.type === "text")
+    .map((part): AnthropicContent => {
+      if (part.type === "text") {
+        return { type: "text", text: part.text };
+      }
+      if (part.type === "image") {
+        return {
+          type: "image",
+          source: { type: "base64", media_type: part.mimeType, data: part.data }
+        };
+      }
+      if (part.mimeType === "application/pdf") {
+        return {
+          type: "document",
+          source: { type: "base64", media_type: part.mimeType, data: part.data }
+        };
+      }
+      return { type: "text", text: unsupportedFileNote(part) };
+    });
+}
+
+function extractAnthropicOutputText(response: unknown) {
+  const parsed = response as { content?: Array<{ type: string; text?: string }> };
+  return (
+    parsed.content
+      ?.filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("")
+      .trim() ?? ""
+  );
+}
+
+type AnthropicUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+/** Anthropic reports cache reads and writes apart from `input_tokens`. */
+function toTokenUsage(usage: AnthropicUsage): TokenUsage {
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  return {
+    inputTokens:
+      (usage.input_tokens ?? 0) + cachedTokens + (usage.cache_creation_input_tokens ?? 0),
+    outputTokens: usage.output_tokens ?? 0,
+    cachedTokens
+  };
+}
+
+async function postAnthropic(body: object, signal: AbortSignal) {
+  const response = await fetch(ANTHROPIC_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": process.env.ANTHROPIC_API_KEY ?? "",
+      "anthropic-version": ANTHROPIC_VERSION
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(await readApiError(response, "Anthropic API вернул ошибку."));
+  }
+
+  return response;
+}
+
+export const anthropicProvider: ProviderAdapter<AnthropicPayload, unknown> = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultModel: ANTHROPIC_MODEL,
+  models: parseModelList(process.env.ANTHROPIC_MODELS, ANTHROPIC_MODEL),
+  supportsTemperature: () => true,
+  supportsReasoningEffort: () => false,
+  nativeFileTypes: ["application/pdf"],
+  charsPerToken: 3.5,
+  contextWindow: () => parseContextWindow(process.env.ANTHROPIC_CONTEXT_TOKENS, 200000),
+  supportsImageOutput: () => false,
+  supportsTools: false,
+  configError: "ANTHROPIC_API_KEY is not configured",
+
+  isConfigured() {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  },
+
+  buildRequest({
+    model,
+    messages,
+    temperature,
+    maxOutputTokens,
+    instructions
+  }: GenerateRequest) {
+    return {
+      model,
+      max_tokens: maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      ...(instructions ? { system: instructions } : {}),
+      ...(temperature != null ? { temperature: Math.min(temperature, 1) } : {}),
+      messages: messages
+        .map((message) => ({ role: message.role, content: toContent(message) }))
+        .filter((message) => message.content.length > 0)
+    };
+  },
+
+  async call(payload) {
+    const timeout = createIdleTimeout();
+    try {
+      const response = await postAnthropic(payload, timeout.signal);
+      return await response.json();
+    } finally {
+      timeout.clear();
+    }
+  },
+
+  async stream(payload, { onDelta, onUsage, signal }) {
+    const timeout = createIdleTimeout(signal);
+    try {
+      const response = await postAnthropic({ ...payload, stream: true }, timeout.signal);
+      if (!response.body) {
+        throw new Error("Anthropic API вернул пустой ответ.");
+      }
+
+      let outputText = "";
+      let usage: AnthropicUsage = {};
+      await readSseData(
+        response.body,
+        (data) => {
+          const event = parseJson(data) as {
+            type?: string;
+            delta?: { type?: string; text?: string };
+            error?: { message?: string };
+            message?: { usage?: AnthropicUsage };
+            usage?: AnthropicUsage;
+          } | null;
+
+          if (event?.type === "message_start" && event.message?.usage) {
+            usage = { ...event.message.usage };
+          } else if (event?.type === "message_delta" && event.usage) {
+            usage = { ...usage, ...event.usage };
+          }
+
+          if (event?.type === "error") {
+            throw new Error(event.error?.message || "Anthropic API вернул ошибку.");
+          }
+
+          if (event?.type === "content_block_delta" && event.delta?.type === "text_delta") {
+            const delta = event.delta.text ?? "";
+            outputText += delta;
+            onDelta(delta);
+          }
+        },
+        timeout.touch
+      );
+
+      onUsage?.(toTokenUsage(usage));
+      return outputText.trim();
+    } finally {
+      timeout.clear();
+    }
+  },
+
+  extractText: extractAnthropicOutputText,
+
+  extractImages: () => [],
+
+  extractToolCalls: () => [],
+
+  appendToolStep: (payload) => payload,
+
+  extractUsage(response) {
+    const usage = (response as { usage?: AnthropicUsage } | null)?.usage;
+    return usage ? toTokenUsage(usage) : null;
+  },
+
+  mapError: createNetworkErrorMapper(
+    "Не удалось подключиться к Anthropic API. Проверьте интернет, ANTHROPIC_API_KEY и доступ к api.anthropic.com."
+  )
+};
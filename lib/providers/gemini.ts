@@ -0,0 +1,305 @@
+import {
+  createIdleTimeout,
+  createNetworkErrorMapper,
+  parseContextWindow,
+  parseJson,
+  parseModelList,
+  readApiError,
+  readSseData
+} from "./shared";
+import type {
+  GeneratedImage,
+  GenerateRequest,
+  ProviderAdapter,
+  ProviderMessage,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition
+} from "./types";
+
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } }
+  | {
+      functionCall: { id?: string; name: string; args: Record<string, unknown> };
+      thoughtSignature?: string;
+    }
+  | { functionResponse: { id?: string; name: string; response: { result: string } } };
+
+type GeminiFunctionCallPart = {
+  functionCall?: { id?: string; name?: string; args?: Record<string, unknown> };
+  thoughtSignature?: string;
+};
+
+type GeminiPayload = {
+  model: string;
+  body: {
+    contents: Array<{ role: "user" | "model"; parts: GeminiPart[] }>;
+    systemInstruction?: { parts: Array<{ text: string }> };
+    tools?: Array<{ functionDeclarations: ToolDefinition[] }>;
+    generationConfig?: {
+      temperature?: number;
+      maxOutputTokens?: number;
+      thinkingConfig?: { thinkingBudget: number };
+      responseModalities?: Array<"TEXT" | "IMAGE">;
+    };
+  };
+};
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+const THINKING_BUDGETS = { low: 1024, medium: 8192, high: 24576 } as const;
+
+/** Image output exists only on the dedicated image models (`gemini-2.5-flash-image`, …). */
+function supportsGeminiImageOutput(model: string) {
+  return model.includes("-image");
+}
+
+/** Thinking budgets exist from Gemini 2.5 on, except in the image models. */
+function supportsGeminiThinking(model: string) {
+  return /^gemini-(2\.5|[3-9])/.test(model) && !supportsGeminiImageOutput(model);
+}
+
+function toParts(message: ProviderMessage): GeminiPart[] {
+  return message.parts
+    .filter((part) => message.role === "user" || part.type === "text")
+    .map((part): GeminiPart => {
+      if (part.type === "text") {
+        return { text: part.text };
+      }
+      return { inline_data: { mime_type: part.mimeType, data: part.data } };
+    });
+}
+
+function extractGeminiOutputText(payload: unknown, trim = true) {
+  const parsed = payload as {
+    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  };
+
+  const outputText =
+    parsed.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+
+  return trim ? outputText.trim() : outputText;
+}
+
+/** Images from response parts; draft images produced while thinking are skipped. */
+function extractGeminiImages(payload: unknown): GeneratedImage[] {
+  const parsed = payload as {
+    candidates?: Array<{
+      content?: {
+        parts?: Array<{ thought?: boolean; inlineData?: { mimeType?: string; data?: string } }>;
+      };
+    }>;
+  };
+
+  return (parsed.candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => !part.thought && part.inlineData?.data)
+    .map((part) => ({
+      mimeType: part.inlineData!.mimeType || "image/png",
+      data: part.inlineData!.data!
+    }));
+}
+
+/**
+ * Function calls with their thought signatures, which Gemini 2.5+ requires
+ * back in the next turn. Calls without an id get a positional one.
+ */
+function extractGeminiToolCalls(payload: unknown, offset = 0): ToolCall[] {
+  const parsed = payload as {
+    candidates?: Array<{ content?: { parts?: GeminiFunctionCallPart[] } }>;
+  };
+
+  return (parsed.candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => part.functionCall?.name)
+    .map((part, index) => ({
+      id: part.functionCall!.id || `call_${offset + index + 1}`,
+      name: part.functionCall!.name!,
+      arguments: part.functionCall!.args ?? {},
+      ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {})
+    }));
+}
+
+/** Thinking tokens are billed as output. */
+function extractGeminiUsage(payload: unknown): TokenUsage | null {
+  const usage = (payload as {
+    usageMetadata?: {
+      promptTokenCount?: number;
+      candidatesTokenCount?: number;
+      thoughtsTokenCount?: number;
+      cachedContentTokenCount?: number;
+    };
+  } | null)?.usageMetadata;
+  if (!usage) return null;
+
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+    cachedTokens: usage.cachedContentTokenCount ?? 0
+  };
+}
+
+async function postGemini(payload: GeminiPayload, method: string, signal: AbortSignal) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const response = await fetch(`${GEMINI_API_URL}/${payload.model}:${method}key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(payload.body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(await readApiError(response, "Gemini API вернул ошибку."));
+  }
+
+  return response;
+}
+
+export const geminiProvider: ProviderAdapter<GeminiPayload, unknown> = {
+  id: "gemini",
+  label: "Gemini",
+  defaultModel: GEMINI_MODEL,
+  models: parseModelList(process.env.GEMINI_MODELS, GEMINI_MODEL),
+  supportsTemperature: () => true,
+  supportsReasoningEffort: supportsGeminiThinking,
+  nativeFileTypes: ["application/pdf"],
+  charsPerToken: 4,
+  contextWindow: () => parseContextWindow(process.env.GEMINI_CONTEXT_TOKENS, 1048576),
+  supportsImageOutput: supportsGeminiImageOutput,
+  supportsTools: true,
+  configError: "GEMINI_API_KEY is not configured",
+
+  isConfigured() {
+    return Boolean(process.env.GEMINI_API_KEY);
+  },
+
+  buildRequest({
+    model,
+    messages,
+    temperature,
+    maxOutputTokens,
+    reasoningEffort,
+    instructions,
+    imageOutput,
+    tools
+  }: GenerateRequest) {
+    const generationConfig = {
+      ...(temperature != null ? { temperature } : {}),
+      ...(maxOutputTokens != null ? { maxOutputTokens } : {}),
+      ...(reasoningEffort && supportsGeminiThinking(model)
+        ? { thinkingConfig: { thinkingBudget: THINKING_BUDGETS[reasoningEffort] } }
+        : {}),
+      ...(imageOutput && supportsGeminiImageOutput(model)
+        ? { responseModalities: ["TEXT" as const, "IMAGE" as const] }
+        : {})
+    };
+
+    return {
+      model,
+      body: {
+        contents: messages
+          .map((message) => ({
+            role: message.role === "assistant" ? ("model" as const) : ("user" as const),
+            parts: toParts(message)
+          }))
+          .filter((message) => message.parts.length > 0),
+        ...(instructions ? { systemInstruction: { parts: [{ text: instructions }] } } : {}),
+        ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {}),
+        ...(Object.keys(generationConfig).length > 0 ? { generationConfig } : {})
+      }
+    };
+  },
+
+  async call(payload) {
+    const timeout = createIdleTimeout();
+    try {
+      const response = await postGemini(payload, "generateContent?", timeout.signal);
+      return await response.json();
+    } finally {
+      timeout.clear();
+    }
+  },
+
+  async stream(payload, { onDelta, onUsage, onImage, onToolCall, signal }) {
+    const timeout = createIdleTimeout(signal);
+    try {
+      const response = await postGemini(
+        payload,
+        "streamGenerateContent?alt=sse&",
+        timeout.signal
+      );
+      if (!response.body) {
+        throw new Error("Gemini API вернул пустой ответ.");
+      }
+
+      let outputText = "";
+      let usage: TokenUsage | null = null;
+      let callCount = 0;
+      await readSseData(
+        response.body,
+        (data) => {
+          const chunk = parseJson(data);
+          const delta = extractGeminiOutputText(chunk, false);
+          if (delta) {
+            outputText += delta;
+            onDelta(delta);
+          }
+          extractGeminiImages(chunk).forEach((image) => onImage?.(image));
+          for (const call of extractGeminiToolCalls(chunk, callCount)) {
+            callCount += 1;
+            onToolCall?.(call);
+          }
+          // Every chunk carries running totals; the last one is final.
+          usage = extractGeminiUsage(chunk) ?? usage;
+        },
+        timeout.touch
+      );
+
+      if (usage) onUsage?.(usage);
+      return outputText.trim();
+    } finally {
+      timeout.clear();
+    }
+  },
+
+  extractText: (response) => extractGeminiOutputText(response),
+
+  extractImages: extractGeminiImages,
+
+  extractToolCalls: (response) => extractGeminiToolCalls(response),
+
+  appendToolStep(payload, { text, calls, outputs }) {
+    return {
+      ...payload,
+      body: {
+        ...payload.body,
+        contents: [
+          ...payload.body.contents,
+          {
+            role: "model",
+            parts: [
+              ...(text ? [{ text }] : []),
+              ...calls.map((call) => ({
+                functionCall: { name: call.name, args: call.arguments },
+                ...(call.signature ? { thoughtSignature: call.signature } : {})
+              }))
+            ]
+          },
+          {
+            role: "user",
+            parts: calls.map((call, index) => ({
+              functionResponse: { name: call.name, response: { result: outputs[index] ?? "" } }
+            }))
+          }
+        ]
+      }
+    };
+  },
+
+  extractUsage: extractGeminiUsage,
+
+  mapError: createNetworkErrorMapper(
+    "Не удалось подключиться к Gemini API. Проверьте интернет, GEMINI_API_KEY и доступ к Google API (в некоторых сетях нужен VPN)."
+  )
+};
@@ -0,0 +1,158 @@
+import type { ChatSettings } from "@/lib/db";
+import { anthropicProvider } from "./anthropic";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openAiProvider } from "./openai";
+import { openAiCompatibleProvider } from "./openai-compatible";
+import type { ProviderAdapter, ProviderInfo, ReasoningEffort } from "./types";
+
+export type {
+  GeneratedImage,
+  GenerateRequest,
+  ProviderAdapter,
+  ProviderInfo,
+  ProviderMessage,
+  ProviderMessagePart,
+  ReasoningEffort,
+  StreamHandlers,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  ToolStep
+} from "./types";
+
+const PROVIDERS: ProviderAdapter[] = [
+  openAiProvider,
+  geminiProvider,
+  anthropicProvider,
+  openAiCompatibleProvider,
+  mockProvider
+];
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+const MAX_TEMPERATURE = 2;
+const MAX_OUTPUT_TOKENS_LIMIT = 128000;
+export const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+export const DEFAULT_PROVIDER_ID = openAiProvider.id;
+
+export function getProvider(id: unknown): ProviderAdapter | null {
+  return PROVIDERS.find((provider) => provider.id === id) ?? null;
+}
+
+export function listProviders(): ProviderInfo[] {
+  return PROVIDERS.filter((provider) => provider.isConfigured()).map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    model: provider.defaultModel,
+    models: provider.models,
+    temperatureModels: provider.models.filter((model) => provider.supportsTemperature(model)),
+    reasoningEffortModels: provider.models.filter((model) =>
+      provider.supportsReasoningEffort(model)
+    ),
+    nativeFileTypes: provider.nativeFileTypes,
+    imageOutputModels: provider.models.filter((model) => provider.supportsImageOutput(model)),
+    supportsTools: provider.supportsTools
+  }));
+}
+
+/**
+ * Validates chat settings coming from a client. `null` fields mean
+ * "use the provider default".
+ */
+export function parseChatSettings(
+  input: unknown
+): { settings: ChatSettings; error?: undefined } | { error: string } {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  const providerId = typeof raw.provider === "string" && raw.provider ? raw.provider : null;
+  const provider = providerId ? getProvider(providerId) : null;
+  if (providerId && (!provider || !provider.isConfigured())) {
+    return { error: "Неизвестный провайдер" };
+  }
+
+  const model = typeof raw.model === "string" && raw.model ? raw.model : null;
+  if (model && (!provider || !provider.models.includes(model))) {
+    return { error: `Модель ${model} недоступна.` };
+  }
+
+  let temperature: number | null = null;
+  if (raw.temperature != null && raw.temperature !== "") {
+    temperature = Number(raw.temperature);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > MAX_TEMPERATURE) {
+      return { error: `Температура должна быть от 0 до ${MAX_TEMPERATURE}.` };
+    }
+  }
+
+  let maxOutputTokens: number | null = null;
+  if (raw.maxOutputTokens != null && raw.maxOutputTokens !== "") {
+    maxOutputTokens = Number(raw.maxOutputTokens);
+    if (
+      !Number.isInteger(maxOutputTokens) ||
+      maxOutputTokens < 1 ||
+      maxOutputTokens > MAX_OUTPUT_TOKENS_LIMIT
+    ) {
+      return {
+        error: `Лимит ответа должен быть целым числом от 1 до ${MAX_OUTPUT_TOKENS_LIMIT}.`
+      };
+    }
+  }
+
+  let reasoningEffort: ReasoningEffort | null = null;
+  if (raw.reasoningEffort != null && raw.reasoningEffort !== "") {
+    if (!REASONING_EFFORTS.includes(raw.reasoningEffort as ReasoningEffort)) {
+      return { error: "Некорректный уровень рассуждений." };
+    }
+    reasoningEffort = raw.reasoningEffort as ReasoningEffort;
+  }
+
+  const systemPrompt = typeof raw.systemPrompt === "string" ? raw.systemPrompt.trim() : "";
+  if (systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    return {
+      error: `Системный промпт слишком длинный. Максимум ${MAX_SYSTEM_PROMPT_LENGTH} символов.`
+    };
+  }
+
+  const resolvedProvider = provider ?? openAiProvider;
+  const resolvedModel = model ?? resolvedProvider.defaultModel;
+
+  return {
+    settings: {
+      provider: providerId,
+      model,
+      temperature: resolvedProvider.supportsTemperature(resolvedModel) ? temperature : null,
+      maxOutputTokens,
+      reasoningEffort: resolvedProvider.supportsReasoningEffort(resolvedModel)
+        ? reasoningEffort
+        : null,
+      systemPrompt: systemPrompt || null
+    }
+  };
+}
+
+/**
+ * Resolves stored chat settings against the current configuration:
+ * models removed from the allowlist fall back to the provider default.
+ */
+export function resolveGenerationSettings(settings: ChatSettings) {
+  const provider = getProvider(settings.provider ?? DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    return null;
+  }
+
+  const model =
+    settings.model && provider.models.includes(settings.model)
+      ? settings.model
+      : provider.defaultModel;
+
+  return {
+    provider,
+    model,
+    temperature: provider.supportsTemperature(model) ? settings.temperature : null,
+    maxOutputTokens: settings.maxOutputTokens,
+    reasoningEffort: provider.supportsReasoningEffort(model)
+      ? (settings.reasoningEffort as ReasoningEffort | null)
+      : null,
+    instructions: settings.systemPrompt
+  };
+}
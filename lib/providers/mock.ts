@@ -0,0 +1,124 @@
+import type {
+  GeneratedImage,
+  GenerateRequest,
+  ProviderAdapter,
+  TokenUsage,
+  ToolCall
+} from "./types";
+
+type MockPayload = {
+  model: string;
+  reply: string;
+  inputChars: number;
+  images: GeneratedImage[];
+  toolCalls: ToolCall[];
+};
+
+/** 16×16 gradient returned when image output is requested. */
+const MOCK_IMAGE: GeneratedImage = {
+  mimeType: "image/png",
+  data: "iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAARklEQVR42mPIe/6z7PHPuvs/227/7Lv+c9rln/PO/1x2+ue64z+3Hf65b//PY7t/ntv+89rmn/fW/3y2+ifDqIZRDcNXAwBMnGwfeq9MnwAAAABJRU5ErkJggg=="
+};
+
+/** Rough four-characters-per-token counts, so usage accounting can be tried offline. */
+function estimateUsage(payload: MockPayload): TokenUsage {
+  return {
+    inputTokens: Math.ceil(payload.inputChars / 4),
+    outputTokens: Math.ceil(payload.reply.length / 4),
+    cachedTokens: 0
+  };
+}
+
+function buildReply({ messages }: GenerateRequest) {
+  const lastUser = [...messages].reverse().find((message) => message.role === "user");
+  const text = lastUser?.parts
+    .map((part) => (part.type === "text" ? part.text : `[${part.type}]`))
+    .join("\n")
+    .trim();
+
+  return `Тестовый ответ на сообщение:\n\n> ${text || "(пусто)"}\n\nСообщений в контексте: ${messages.length}.`;
+}
+
+/** `/tool <name> <json arguments>` in the last user message calls an enabled tool. */
+function buildToolCalls({ messages, tools }: GenerateRequest): ToolCall[] {
+  const lastUser = [...messages].reverse().find((message) => message.role === "user");
+  const text = lastUser?.parts.find((part) => part.type === "text");
+  const match = text?.type === "text" ? text.text.match(/^\/tool\s+(\S+)\s*([\s\S]*)$/) : null;
+  if (!match || !tools?.some((tool) => tool.name === match[1])) return [];
+
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(match[2] || "{}");
+  } catch {
+    // Invalid JSON is passed on as no arguments, like a sloppy model would.
+  }
+  return [{ id: "mock_call_1", name: match[1], arguments: args }];
+}
+
+/**
+ * Offline provider for local development and UI work. Enabled with
+ * ENABLE_MOCK_PROVIDER=1.
+ */
+export const mockProvider: ProviderAdapter<MockPayload, MockPayload> = {
+  id: "mock",
+  label: "Mock",
+  defaultModel: "mock-echo",
+  models: ["mock-echo"],
+  supportsTemperature: () => false,
+  supportsReasoningEffort: () => false,
+  nativeFileTypes: [],
+  charsPerToken: 4,
+  contextWindow: () => 8192,
+  supportsImageOutput: () => true,
+  supportsTools: true,
+  configError: "ENABLE_MOCK_PROVIDER is not set",
+
+  isConfigured() {
+    return process.env.ENABLE_MOCK_PROVIDER === "1";
+  },
+
+  buildRequest(request) {
+    const inputChars = request.messages
+      .flatMap((message) => message.parts)
+      .reduce((total, part) => total + (part.type === "text" ? part.text.length : 0), 0);
+    const toolCalls = buildToolCalls(request);
+    return {
+      model: request.model,
+      reply: toolCalls.length > 0 ? "" : buildReply(request),
+      inputChars: inputChars + (request.instructions?.length ?? 0),
+      images: request.imageOutput ? [MOCK_IMAGE] : [],
+      toolCalls
+    };
+  },
+
+  async call(payload) {
+    return payload;
+  },
+
+  async stream(payload, { onDelta, onUsage, onImage, onToolCall, signal }) {
+    for (const token of payload.reply.split(/(?<=\s)/).filter(Boolean)) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      signal?.throwIfAborted();
+      onDelta(token);
+    }
+    payload.images.forEach((image) => onImage?.(image));
+    payload.toolCalls.forEach((call) => onToolCall?.(call));
+    onUsage?.(estimateUsage(payload));
+    return payload.reply;
+  },
+
+  extractText: (response) => response.reply,
+
+  extractImages: (response) => response.images,
+
+  extractToolCalls: (response) => response.toolCalls,
+
+  appendToolStep(payload, { calls, outputs }) {
+    const results = calls.map((call, index) => `${call.name}: ${outputs[index]}`).join("\n");
+    return { ...payload, reply: `Результаты инструментов:\n\n${results}`, toolCalls: [] };
+  },
+
+  extractUsage: estimateUsage,
+
+  mapError: (error) => (error instanceof Error ? error.message : "Неизвестная ошибка")
+};
@@ -0,0 +1,172 @@
+import OpenAI from "openai";
+import {
+  createNetworkErrorMapper,
+  parseContextWindow,
+  parseModelList,
+  unsupportedFileNote
+} from "./shared";
+import type { GenerateRequest, ProviderAdapter, ProviderMessage, TokenUsage } from "./types";
+
+type ChatContent =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type ChatPayload = {
+  model: string;
+  temperature?: number;
+  max_tokens?: number;
+  messages: Array<
+    | { role: "system"; content: string }
+    | { role: "user"; content: ChatContent[] }
+    | { role: "assistant"; content: string }
+  >;
+};
+
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || "llama3.1";
+
+let localClient: OpenAI | null = null;
+
+function getLocalClient() {
+  if (!localClient) {
+    localClient = new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      apiKey: process.env.LOCAL_LLM_API_KEY || "local"
+    });
+  }
+  return localClient;
+}
+
+function toMessage(message: ProviderMessage): ChatPayload["messages"][number] {
+  if (message.role === "assistant") {
+    return {
+      role: "assistant",
+      content: message.parts
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("")
+    };
+  }
+
+  return {
+    role: "user",
+    content: message.parts.map((part): ChatContent => {
+      if (part.type === "text") {
+        return { type: "text", text: part.text };
+      }
+      if (part.type === "image") {
+        return {
+          type: "image_url",
+          image_url: { url: `data:${part.mimeType};base64,${part.data}` }
+        };
+      }
+      return { type: "text", text: unsupportedFileNote(part) };
+    })
+  };
+}
+
+function extractChatUsage(response: unknown): TokenUsage | null {
+  const usage = (response as {
+    usage?: {
+      prompt_tokens?: number;
+      completion_tokens?: number;
+      prompt_tokens_details?: { cached_tokens?: number } | null;
+    } | null;
+  })?.usage;
+  if (!usage) return null;
+
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0
+  };
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (Ollama, LM Studio,
+ * vLLM, ...). Enabled when LOCAL_LLM_BASE_URL is set.
+ */
+export const openAiCompatibleProvider: ProviderAdapter<ChatPayload, unknown> = {
+  id: "local",
+  label: process.env.LOCAL_LLM_LABEL || "Локальная модель",
+  defaultModel: LOCAL_LLM_MODEL,
+  models: parseModelList(process.env.LOCAL_LLM_MODELS, LOCAL_LLM_MODEL),
+  supportsTemperature: () => true,
+  supportsReasoningEffort: () => false,
+  nativeFileTypes: [],
+  charsPerToken: 3.5,
+  contextWindow: () => parseContextWindow(process.env.LOCAL_LLM_CONTEXT_TOKENS, 8192),
+  supportsImageOutput: () => false,
+  supportsTools: false,
+  configError: "LOCAL_LLM_BASE_URL is not configured",
+
+  isConfigured() {
+    return Boolean(process.env.LOCAL_LLM_BASE_URL);
+  },
+
+  buildRequest({
+    model,
+    messages,
+    temperature,
+    maxOutputTokens,
+    instructions
+  }: GenerateRequest) {
+    return {
+      model,
+      messages: [
+        ...(instructions ? [{ role: "system" as const, content: instructions }] : []),
+        ...messages.map(toMessage)
+      ],
+      ...(temperature != null ? { temperature } : {}),
+      ...(maxOutputTokens != null ? { max_tokens: maxOutputTokens } : {})
+    };
+  },
+
+  async call(payload) {
+    return getLocalClient().chat.completions.create({
+      ...payload,
+      messages: payload.messages as any
+    });
+  },
+
+  async stream(payload, { onDelta, onUsage, signal }) {
+    const stream = await getLocalClient().chat.completions.create(
+      {
+        ...payload,
+        messages: payload.messages as any,
+        stream: true,
+        stream_options: { include_usage: true }
+      },
+      { signal }
+    );
+
+    let outputText = "";
+    for await (const chunk of stream) {
+      const usage = extractChatUsage(chunk);
+      if (usage) onUsage?.(usage);
+
+      const delta = chunk.choices[0]?.delta?.content ?? "";
+      if (delta) {
+        outputText += delta;
+        onDelta(delta);
+      }
+    }
+
+    return outputText.trim();
+  },
+
+  extractText(response) {
+    const parsed = response as { choices?: Array<{ message?: { content?: string | null } }> };
+    return parsed.choices?.[0]?.message?.content?.trim() ?? "";
+  },
+
+  extractImages: () => [],
+
+  extractToolCalls: () => [],
+
+  appendToolStep: (payload) => payload,
+
+  extractUsage: extractChatUsage,
+
+  mapError: createNetworkErrorMapper(
+    "Не удалось подключиться к локальной модели. Проверьте, что сервер запущен и LOCAL_LLM_BASE_URL указан верно."
+  )
+};
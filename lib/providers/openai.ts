@@ -0,0 +1,304 @@
+import OpenAI from "openai";
+import { createNetworkErrorMapper, parseContextWindow, parseModelList } from "./shared";
+import type {
+  GeneratedImage,
+  GenerateRequest,
+  ProviderAdapter,
+  ProviderMessage,
+  TokenUsage,
+  ToolCall
+} from "./types";
+
+type ContentPart =
+  | { type: "input_text" | "output_text"; text: string }
+  | { type: "input_image"; image_url: string }
+  | { type: "input_file"; file_data: string; filename: string };
+
+type InputItem =
+  | { type: "message"; role: "user" | "assistant"; content: ContentPart[] }
+  | { type: "function_call"; call_id: string; name: string; arguments: string }
+  | { type: "function_call_output"; call_id: string; output: string };
+
+type OpenAiTool =
+  | { type: "image_generation" }
+  | { type: "function"; name: string; description: string; parameters: Record<string, unknown> };
+
+type OpenAiPayload = {
+  model: string;
+  input: InputItem[];
+  instructions?: string;
+  temperature?: number;
+  max_output_tokens?: number;
+  reasoning?: { effort: "low" | "medium" | "high" };
+  tools?: OpenAiTool[];
+};
+
+type ImageGenerationCall = {
+  type: "image_generation_call";
+  result?: string | null;
+  output_format?: string;
+};
+
+type FunctionCall = {
+  type: "function_call";
+  call_id: string;
+  name: string;
+  arguments: string;
+};
+
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-5.2";
+
+/** Context sizes of the OpenAI model families, by name prefix. */
+function getOpenAiContextWindow(model: string) {
+  if (model.startsWith("gpt-5")) return 400000;
+  if (model.startsWith("gpt-4.1")) return 1047576;
+  if (/^o\d/.test(model)) return 200000;
+  return 128000;
+}
+
+/**
+ * Reasoning models (gpt-5 family, o-series) take a reasoning effort and
+ * reject `temperature`; the chat-tuned gpt-5 variants and older models are
+ * the other way round.
+ */
+function isOpenAiReasoningModel(model: string) {
+  return /^(gpt-5|o\d)/.test(model) && !model.includes("-chat");
+}
+
+/** Models that can call the hosted `image_generation` tool. */
+function supportsOpenAiImageOutput(model: string) {
+  return /^(gpt-4o|gpt-4\.1|gpt-5|o3)/.test(model);
+}
+
+let openAiClient: OpenAI | null = null;
+
+function getOpenAiClient() {
+  if (!openAiClient) {
+    openAiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openAiClient;
+}
+
+function toContent(message: ProviderMessage): ContentPart[] {
+  if (message.role === "assistant") {
+    return message.parts
+      .filter((part) => part.type === "text")
+      .map((part) => ({ type: "output_text", text: part.text }));
+  }
+
+  return message.parts.map((part): ContentPart => {
+    if (part.type === "text") {
+      return { type: "input_text", text: part.text };
+    }
+    if (part.type === "image") {
+      return { type: "input_image", image_url: `data:${part.mimeType};base64,${part.data}` };
+    }
+    return { type: "input_file", file_data: part.data, filename: part.name };
+  });
+}
+
+function extractOpenAiOutputText(response: unknown) {
+  const responseAny = response as {
+    output_text?: string;
+    output?: Array<{ content?: Array<{ type: string; text?: string }> }>;
+  };
+
+  const outputText =
+    responseAny.output_text ??
+    responseAny.output
+      ?.flatMap((item) => item.content ?? [])
+      .filter((item) => item.type === "output_text")
+      .map((item) => item.text ?? "")
+      .join("") ??
+    "";
+
+  return outputText.trim();
+}
+
+function toGeneratedImage(item: ImageGenerationCall): GeneratedImage | null {
+  if (!item.result) return null;
+  return { mimeType: `image/${item.output_format || "png"}`, data: item.result };
+}
+
+function extractOpenAiImages(response: unknown): GeneratedImage[] {
+  const output = (response as { output?: Array<{ type: string }> })?.output ?? [];
+  return output
+    .filter((item): item is ImageGenerationCall => item.type === "image_generation_call")
+    .map(toGeneratedImage)
+    .filter((image): image is GeneratedImage => image !== null);
+}
+
+function toToolCall(item: FunctionCall): ToolCall {
+  let args: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(item.arguments || "{}");
+    if (parsed && typeof parsed === "object") args = parsed;
+  } catch {
+    // The tool reports missing arguments back to the model.
+  }
+  return { id: item.call_id, name: item.name, arguments: args };
+}
+
+function extractOpenAiToolCalls(response: unknown): ToolCall[] {
+  const output = (response as { output?: Array<{ type: string }> })?.output ?? [];
+  return output
+    .filter((item): item is FunctionCall => item.type === "function_call")
+    .map(toToolCall);
+}
+
+function extractOpenAiUsage(response: unknown): TokenUsage | null {
+  const usage = (response as {
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      input_tokens_details?: { cached_tokens?: number };
+    } | null;
+  })?.usage;
+  if (!usage) return null;
+
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cachedTokens: usage.input_tokens_details?.cached_tokens ?? 0
+  };
+}
+
+export const openAiProvider: ProviderAdapter<OpenAiPayload, unknown> = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: OPENAI_MODEL,
+  models: parseModelList(process.env.OPENAI_MODELS, OPENAI_MODEL),
+  supportsTemperature: (model) => !isOpenAiReasoningModel(model),
+  supportsReasoningEffort: isOpenAiReasoningModel,
+  nativeFileTypes: ["application/pdf"],
+  charsPerToken: 4,
+  contextWindow: (model) =>
+    parseContextWindow(process.env.OPENAI_CONTEXT_TOKENS, getOpenAiContextWindow(model)),
+  supportsImageOutput: supportsOpenAiImageOutput,
+  supportsTools: true,
+  configError: "OPENAI_API_KEY is not configured",
+
+  isConfigured() {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  buildRequest({
+    model,
+    messages,
+    temperature,
+    maxOutputTokens,
+    reasoningEffort,
+    instructions,
+    imageOutput,
+    tools
+  }: GenerateRequest) {
+    const hostedTools: OpenAiTool[] = [
+      ...(imageOutput && supportsOpenAiImageOutput(model) ? [{ type: "image_generation" as const }] : []),
+      ...(tools ?? []).map((tool) => ({ type: "function" as const, ...tool }))
+    ];
+
+    return {
+      model,
+      ...(instructions ? { instructions } : {}),
+      input: messages
+        .map((message) => ({
+          type: "message" as const,
+          role: message.role,
+          content: toContent(message)
+        }))
+        .filter((message) => message.content.length > 0),
+      ...(temperature != null && !isOpenAiReasoningModel(model) ? { temperature } : {}),
+      ...(maxOutputTokens != null ? { max_output_tokens: maxOutputTokens } : {}),
+      ...(reasoningEffort && isOpenAiReasoningModel(model)
+        ? { reasoning: { effort: reasoningEffort } }
+        : {}),
+      ...(hostedTools.length > 0 ? { tools: hostedTools } : {})
+    };
+  },
+
+  async call(payload) {
+    return getOpenAiClient().responses.create({
+      ...payload,
+      input: payload.input as any,
+      tools: payload.tools as any
+    });
+  },
+
+  async stream(payload, { onDelta, onUsage, onImage, onToolCall, signal }) {
+    const stream = await getOpenAiClient().responses.create(
+      {
+        ...payload,
+        input: payload.input as any,
+        tools: payload.tools as any,
+        stream: true
+      },
+      { signal }
+    );
+
+    let outputText = "";
+    for await (const event of stream) {
+      if (event.type === "response.output_text.delta") {
+        outputText += event.delta;
+        onDelta(event.delta);
+      } else if (
+        event.type === "response.output_item.done" &&
+        event.item.type === "image_generation_call"
+      ) {
+        const image = toGeneratedImage(event.item as ImageGenerationCall);
+        if (image) onImage?.(image);
+      } else if (event.type === "response.output_item.done" && event.item.type === "function_call") {
+        onToolCall?.(toToolCall(event.item as FunctionCall));
+      } else if (event.type === "response.completed") {
+        const usage = extractOpenAiUsage(event.response);
+        if (usage) onUsage?.(usage);
+      } else if (event.type === "response.failed") {
+        throw new Error(event.response.error?.message || "OpenAI API вернул ошибку.");
+      } else if (event.type === "error") {
+        throw new Error(event.message || "OpenAI API вернул ошибку.");
+      }
+    }
+
+    return outputText.trim();
+  },
+
+  extractText: extractOpenAiOutputText,
+
+  extractImages: extractOpenAiImages,
+
+  extractToolCalls: extractOpenAiToolCalls,
+
+  appendToolStep(payload, { text, calls, outputs }) {
+    return {
+      ...payload,
+      input: [
+        ...payload.input,
+        ...(text
+          ? [
+              {
+                type: "message" as const,
+                role: "assistant" as const,
+                content: [{ type: "output_text" as const, text }]
+              }
+            ]
+          : []),
+        ...calls.map((call) => ({
+          type: "function_call" as const,
+          call_id: call.id,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments)
+        })),
+        ...calls.map((call, index) => ({
+          type: "function_call_output" as const,
+          call_id: call.id,
+          output: outputs[index] ?? ""
+        }))
+      ]
+    };
+  },
+
+  extractUsage: extractOpenAiUsage,
+
+  mapError: createNetworkErrorMapper(
+    "Не удалось подключиться к OpenAI API. Проверьте интернет, OPENAI_API_KEY и доступ к api.openai.com."
+  )
+};
@@ -0,0 +1,119 @@
+import type { ProviderMessagePart } from "./types";
+
+export const REQUEST_TIMEOUT_MS = 45000;
+
+export function parseModelList(value: string | undefined, defaultModel: string) {
+  const models = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return Array.from(new Set([defaultModel, ...models]));
+}
+
+export function parseContextWindow(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function isNetworkError(error: unknown) {
+  if (!(error instanceof Error)) return false;
+  const message = error.message.toLowerCase();
+  return (
+    message.includes("fetch failed") ||
+    message.includes("network") ||
+    message.includes("timed out") ||
+    message.includes("timeout") ||
+    message.includes("enotfound") ||
+    message.includes("econnreset") ||
+    message.includes("econnrefused") ||
+    message.includes("eai_again") ||
+    message.includes("aborted")
+  );
+}
+
+export function createNetworkErrorMapper(networkMessage: string) {
+  return (error: unknown) => {
+    if (isNetworkError(error)) {
+      return networkMessage;
+    }
+
+    if (error instanceof Error) {
+      return error.message;
+    }
+
+    return "Неизвестная ошибка";
+  };
+}
+
+export function unsupportedFileNote(part: Extract<ProviderMessagePart, { type: "file" }>) {
+  return `[Файл ${part.name} не может быть передан этому провайдеру]`;
+}
+
+export async function readApiError(response: Response, fallback: string) {
+  const payload = await response.json().catch(() => ({}));
+  const message = (payload as { error?: { message?: unknown } })?.error?.message;
+  return typeof message === "string" && message ? message : fallback;
+}
+
+/**
+ * Fetch with an idle timeout: the request is aborted when no bytes
+ * arrive for REQUEST_TIMEOUT_MS or when `signal` aborts. Call `touch`
+ * whenever data is received.
+ */
+export function createIdleTimeout(signal?: AbortSignal) {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timer = setTimeout(abort, REQUEST_TIMEOUT_MS);
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort);
+
+  return {
+    signal: controller.signal,
+    touch() {
+      clearTimeout(timer);
+      timer = setTimeout(abort, REQUEST_TIMEOUT_MS);
+    },
+    clear() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  };
+}
+
+export async function readSseData(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+  onChunk?: () => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk?.();
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+
+  buffer += decoder.decode();
+  handleLine(buffer);
+}
+
+export function parseJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
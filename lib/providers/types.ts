@@ -0,0 +1,114 @@
+export type ProviderMessagePart =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; data: string }
+  | { type: "file"; name: string; mimeType: string; data: string };
+
+export type ProviderMessage = {
+  role: "user" | "assistant";
+  parts: ProviderMessagePart[];
+};
+
+export type TokenUsage = {
+  /** All prompt tokens, cached ones included. */
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+};
+
+/** Image produced by the model, base64-encoded. */
+export type GeneratedImage = {
+  mimeType: string;
+  data: string;
+};
+
+/** Function the model may call; `parameters` is a JSON schema object. */
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Opaque token the provider needs back with the call (Gemini thought signature). */
+  signature?: string;
+};
+
+/** One model turn that ended in tool calls, with the outputs to send back. */
+export type ToolStep = {
+  text: string;
+  calls: ToolCall[];
+  outputs: string[];
+};
+
+export type StreamHandlers = {
+  onDelta: (text: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  onImage?: (image: GeneratedImage) => void;
+  onToolCall?: (call: ToolCall) => void;
+  /** Aborts the provider request, e.g. when the client has disconnected. */
+  signal?: AbortSignal;
+};
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+export type GenerateRequest = {
+  model: string;
+  messages: ProviderMessage[];
+  temperature?: number | null;
+  maxOutputTokens?: number | null;
+  reasoningEffort?: ReasoningEffort | null;
+  /** System prompt for the whole conversation. */
+  instructions?: string | null;
+  /** Lets the model answer with images; ignored by models without image output. */
+  imageOutput?: boolean;
+  /** Ignored by providers without function calling. */
+  tools?: ToolDefinition[];
+};
+
+export type ProviderInfo = {
+  id: string;
+  label: string;
+  model: string;
+  models: string[];
+  temperatureModels: string[];
+  reasoningEffortModels: string[];
+  nativeFileTypes: string[];
+  imageOutputModels: string[];
+  supportsTools: boolean;
+};
+
+export type ProviderAdapter<TPayload = any, TResponse = any> = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  /** Server-side allowlist of models a chat may select. */
+  models: string[];
+  /** Whether the model accepts `temperature`; unsupported settings are dropped. */
+  supportsTemperature(model: string): boolean;
+  /** Whether the model accepts a reasoning effort; unsupported settings are dropped. */
+  supportsReasoningEffort(model: string): boolean;
+  /** MIME types sent as files; other documents are converted to text first. */
+  nativeFileTypes: string[];
+  /** Average characters per token for Latin text, used by the token estimator. */
+  charsPerToken: number;
+  /** Total context size (input and output) of a model, in tokens. */
+  contextWindow(model: string): number;
+  /** Whether the model can generate or edit images in its reply. */
+  supportsImageOutput(model: string): boolean;
+  supportsTools: boolean;
+  isConfigured(): boolean;
+  configError: string;
+  buildRequest(request: GenerateRequest): TPayload;
+  call(payload: TPayload): Promise<TResponse>;
+  stream(payload: TPayload, handlers: StreamHandlers): Promise<string>;
+  extractText(response: TResponse): string;
+  extractImages(response: TResponse): GeneratedImage[];
+  extractToolCalls(response: TResponse): ToolCall[];
+  /** Payload for the next turn: the request so far plus the calls and their outputs. */
+  appendToolStep(payload: TPayload, step: ToolStep): TPayload;
+  extractUsage(response: TResponse): TokenUsage | null;
+  mapError(error: unknown): string;
+};
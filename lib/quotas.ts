@@ -0,0 +1,210 @@
+import { getUsageTotals, type UsageTotals } from "@/lib/db";
+import { getFallbackPrice } from "@/lib/pricing";
+import { getUsagePeriodStart } from "@/lib/usage";
+
+type QuotaPeriod = "day" | "month";
+type QuotaMetric = "tokens" | "cost";
+type QuotaScope = "space" | "user";
+
+type PeriodLimits = Partial<Record<QuotaMetric, number>>;
+type LimitSet = Partial<Record<QuotaPeriod, PeriodLimits>>;
+
+type UsageLimits = {
+  spaces: Record<number, LimitSet>;
+  user: LimitSet;
+  warnAt: number;
+};
+
+export type QuotaStatus = {
+  scope: QuotaScope;
+  /** Space number for `space` quotas. */
+  space: number | null;
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+  /** ISO time when the period restarts. */
+  resetsAt: string;
+};
+
+export type QuotaCheck = {
+  exceeded: QuotaStatus | null;
+  warnings: QuotaStatus[];
+  statuses: QuotaStatus[];
+};
+
+const DEFAULT_WARN_AT = 0.8;
+const PERIODS: QuotaPeriod[] = ["day", "month"];
+const METRICS: QuotaMetric[] = ["tokens", "cost"];
+
+const PERIOD_LABELS: Record<QuotaPeriod, { limit: string; reset: string }> = {
+  day: { limit: "дневной", reset: "Лимит обновится завтра" },
+  month: { limit: "месячный", reset: "Лимит обновится в начале следующего месяца" }
+};
+
+let limits: UsageLimits | null = null;
+
+function parseLimitSet(input: unknown): LimitSet {
+  const result: LimitSet = {};
+  if (!input || typeof input !== "object") return result;
+
+  for (const period of PERIODS) {
+    const raw = (input as Record<string, unknown>)[period];
+    if (!raw || typeof raw !== "object") continue;
+
+    const periodLimits: PeriodLimits = {};
+    for (const metric of METRICS) {
+      const value = Number((raw as Record<string, unknown>)[metric]);
+      if (Number.isFinite(value) && value >= 0) {
+        periodLimits[metric] = value;
+      }
+    }
+    result[period] = periodLimits;
+  }
+  return result;
+}
+
+/**
+ * USAGE_LIMITS is JSON such as
+ * `{"spaces":{"1":{"month":{"cost":50}},"4":{"day":{"tokens":200000}}},"user":{"day":{"cost":5}},"warnAt":0.8}`.
+ * Space caps are shared by everyone working in the space, user caps apply to
+ * each account across all spaces.
+ */
+function getLimits(): UsageLimits {
+  if (limits) return limits;
+
+  let raw: Record<string, unknown> = {};
+  try {
+    raw = JSON.parse(process.env.USAGE_LIMITS || "{}");
+  } catch {
+    // Invalid USAGE_LIMITS disables quotas instead of blocking every request.
+  }
+
+  const spaces: Record<number, LimitSet> = {};
+  const rawSpaces = raw.spaces && typeof raw.spaces === "object" ? raw.spaces : {};
+  for (const [key, value] of Object.entries(rawSpaces)) {
+    const space = Number(key);
+    if ([1, 2, 3, 4].includes(space)) {
+      spaces[space] = parseLimitSet(value);
+    }
+  }
+
+  const warnAt = Number(raw.warnAt);
+  limits = {
+    spaces,
+    user: parseLimitSet(raw.user),
+    warnAt: warnAt > 0 && warnAt < 1 ? warnAt : DEFAULT_WARN_AT
+  };
+  return limits;
+}
+
+function getPeriodEnd(period: QuotaPeriod, now: Date) {
+  const end = new Date(now);
+  end.setHours(0, 0, 0, 0);
+  if (period === "day") {
+    end.setDate(end.getDate() + 1);
+  } else {
+    end.setDate(1);
+    end.setMonth(end.getMonth() + 1);
+  }
+  return end;
+}
+
+/** Known cost plus unpriced tokens at the fallback price. */
+function getCappedCost(totals: UsageTotals) {
+  const price = getFallbackPrice();
+  return (
+    totals.cost +
+    (totals.unpricedInputTokens * price.input + totals.unpricedOutputTokens * price.output) /
+      1000000
+  );
+}
+
+function collectStatuses(
+  scope: QuotaScope,
+  limitSet: LimitSet,
+  filter: { userId?: string; space?: number },
+  now: Date
+) {
+  const statuses: QuotaStatus[] = [];
+
+  for (const period of PERIODS) {
+    const periodLimits = limitSet[period];
+    if (!periodLimits || Object.keys(periodLimits).length === 0) continue;
+
+    const totals = getUsageTotals({ ...filter, since: getUsagePeriodStart(period, now) });
+    for (const metric of METRICS) {
+      const limit = periodLimits[metric];
+      if (limit === undefined) continue;
+      statuses.push({
+        scope,
+        space: filter.space ?? null,
+        period,
+        metric,
+        used: metric === "cost" ? getCappedCost(totals) : totals.inputTokens + totals.outputTokens,
+        limit,
+        resetsAt: getPeriodEnd(period, now).toISOString()
+      });
+    }
+  }
+
+  return statuses;
+}
+
+/** Compares usage in the current day and month with the caps for this user and space. */
+export function checkUsageQuota(userId: string, space: number, now = new Date()): QuotaCheck {
+  const config = getLimits();
+  const statuses = [
+    ...collectStatuses("space", config.spaces[space] ?? {}, { space }, now),
+    ...collectStatuses("user", config.user, { userId }, now)
+  ];
+
+  return {
+    exceeded: statuses.find((status) => status.used >= status.limit) ?? null,
+    warnings: statuses.filter(
+      (status) => status.used < status.limit && status.used >= status.limit * config.warnAt
+    ),
+    statuses
+  };
+}
+
+function formatAmount(metric: QuotaMetric, value: number) {
+  return metric === "cost"
+    ? `$${value.toFixed(2)}`
+    : `${Math.round(value).toLocaleString("ru-RU")} токенов`;
+}
+
+function describeOwner(status: QuotaStatus) {
+  return status.scope === "space" ? `раздела ${status.space}` : "вашей учётной записи";
+}
+
+export function formatQuotaExceeded(status: QuotaStatus) {
+  const kind = status.metric === "cost" ? "расходов" : "токенов";
+  return (
+    `Исчерпан ${PERIOD_LABELS[status.period].limit} лимит ${kind} ${describeOwner(status)}: ` +
+    `${formatAmount(status.metric, status.used)} из ${formatAmount(status.metric, status.limit)}. ` +
+    `${PERIOD_LABELS[status.period].reset}.`
+  );
+}
+
+export function formatQuotaWarning(status: QuotaStatus) {
+  const percent = Math.floor((status.used / status.limit) * 100);
+  return (
+    `Использовано ${percent}% ${status.period === "day" ? "дневного" : "месячного"} лимита ` +
+    `${describeOwner(status)}: ${formatAmount(status.metric, status.used)} из ` +
+    `${formatAmount(status.metric, status.limit)}.`
+  );
+}
+
+/** Notices shown after a reply: caps close to the limit or just used up. */
+export function getQuotaWarnings(userId: string, space: number) {
+  const check = checkUsageQuota(userId, space);
+  return [
+    ...check.statuses.filter((status) => status.used >= status.limit).map(formatQuotaExceeded),
+    ...check.warnings.map(formatQuotaWarning)
+  ];
+}
+
+export function getQuotaRetryAfter(status: QuotaStatus, now = new Date()) {
+  return Math.max(1, Math.ceil((Date.parse(status.resetsAt) - now.getTime()) / 1000));
+}
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export const SESSION_COOKIE = "site_session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+let authSecret: string | null = null;
+
+/**
+ * AUTH_SECRET signs session cookies. Without it a random secret is
+ * generated once and kept in data/auth-secret so restarts keep sessions.
+ */
+function getAuthSecret() {
+  if (authSecret) return authSecret;
+
+  const fromEnv = process.env.AUTH_SECRET?.trim();
+  if (fromEnv) {
+    authSecret = fromEnv;
+    return authSecret;
+  }
+
+  const secretPath = path.join(process.cwd(), "data", "auth-secret");
+  try {
+    authSecret = fs.readFileSync(secretPath, "utf8").trim();
+  } catch {
+    authSecret = "";
+  }
+
+  if (!authSecret) {
+    authSecret = crypto.randomBytes(32).toString("base64url");
+    fs.mkdirSync(path.dirname(secretPath), { recursive: true });
+    fs.writeFileSync(secretPath, authSecret, { mode: 0o600 });
+  }
+
+  return authSecret;
+}
+
+function sign(value: string) {
+  return crypto.createHmac("sha256", getAuthSecret()).update(value).digest("base64url");
+}
+
+export function createSessionToken(sessionId: string) {
+  return `${sessionId}.${sign(sessionId)}`;
+}
+
+/** Returns the session id when the token signature is valid. */
+export function verifySessionToken(token: string | undefined | null) {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const sessionId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId));
+
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return sessionId;
+}
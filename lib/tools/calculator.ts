@@ -0,0 +1,146 @@
+import type { ChatTool } from "./types";
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const MAX_EXPRESSION_LENGTH = 1000;
+
+/**
+ * Recursive-descent evaluator for arithmetic: + - * / % ^, parentheses,
+ * unary minus, FUNCTIONS and CONSTANTS. Nothing is passed to eval.
+ */
+function evaluate(expression: string) {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position];
+    if (expected && token !== expected) {
+      throw new Error(token ? `Ожидалось «${expected}», найдено «${token}».` : `Ожидалось «${expected}».`);
+    }
+    position += 1;
+    return token;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = take() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      take();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      take();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative and tighter than unary minus: -2^2 = -4, 2^3^2 = 512.
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error("Выражение оборвано.");
+    if (token === "(") {
+      const value = parseExpression();
+      take(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    if (!/^[a-z_]/i.test(token)) throw new Error(`Неожиданный символ «${token}».`);
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new Error(`Неизвестное имя «${token}».`);
+
+    take("(");
+    const args = [parseExpression()];
+    while (peek() === ",") {
+      take();
+      args.push(parseExpression());
+    }
+    take(")");
+    return fn(...args);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) throw new Error(`Лишний символ «${tokens[position]}».`);
+  return value;
+}
+
+export const calculatorTool: ChatTool = {
+  name: "calculator",
+  label: "Калькулятор",
+  description:
+    "Evaluates an arithmetic expression exactly. Use it for any non-trivial calculation instead of computing in your head. " +
+    "Supports + - * / % ^, parentheses, pi, e and the functions " +
+    `${Object.keys(FUNCTIONS).join(", ")} (log is base 10, ln is natural, trigonometry uses radians).`,
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "Expression such as (2.5 + 4) * sqrt(16) / 3" }
+    },
+    required: ["expression"]
+  },
+
+  execute({ expression }) {
+    if (typeof expression !== "string" || !expression.trim()) {
+      throw new Error("Не передано выражение.");
+    }
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new Error("Выражение слишком длинное.");
+    }
+
+    const value = evaluate(expression);
+    if (!Number.isFinite(value)) throw new Error("Результат не является конечным числом.");
+    return String(Number(value.toPrecision(15)));
+  }
+};
@@ -0,0 +1,139 @@
+import type { ChatTool } from "./types";
+
+type Unit = "minutes" | "hours" | "days" | "weeks" | "months" | "years";
+
+const UNIT_MS: Partial<Record<Unit, number>> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 604_800_000
+};
+
+const UNITS: Unit[] = ["minutes", "hours", "days", "weeks", "months", "years"];
+
+function parseDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return new Date();
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new Error(`Не удалось разобрать дату в поле ${field}.`);
+  return date;
+}
+
+function parseUnit(value: unknown) {
+  const unit = (value ?? "days") as Unit;
+  if (!UNITS.includes(unit)) throw new Error(`Единица должна быть одной из: ${UNITS.join(", ")}.`);
+  return unit;
+}
+
+function getTimeZone(value: unknown) {
+  const timeZone = typeof value === "string" && value ? value : "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Неизвестный часовой пояс ${timeZone}.`);
+  }
+  return timeZone;
+}
+
+/** Local wall-clock time in `timeZone`, e.g. "2026-03-14 09:26:53, Saturday". */
+function formatInZone(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "long",
+      hourCycle: "h23"
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}, ${parts.weekday}`;
+}
+
+/** Calendar months and years keep the day of month where it exists (Jan 31 + 1 month = Feb 28/29). */
+function addCalendar(date: Date, months: number) {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function addToDate(date: Date, amount: number, unit: Unit) {
+  if (unit === "months") return addCalendar(date, amount);
+  if (unit === "years") return addCalendar(date, amount * 12);
+  return new Date(date.getTime() + amount * UNIT_MS[unit]!);
+}
+
+function diffDates(from: Date, to: Date, unit: Unit) {
+  if (unit === "months" || unit === "years") {
+    let months =
+      (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    // Only whole months count: Jan 31 → Feb 27 is zero months.
+    if (months > 0 && addCalendar(from, months) > to) months -= 1;
+    if (months < 0 && addCalendar(from, months) < to) months += 1;
+    return unit === "years" ? Math.trunc(months / 12) : months;
+  }
+  return Math.trunc(((to.getTime() - from.getTime()) / UNIT_MS[unit]!) * 1000) / 1000;
+}
+
+export const datetimeTool: ChatTool = {
+  name: "datetime",
+  label: "Дата и время",
+  description:
+    "Current date and time, date arithmetic and differences between dates. " +
+    "Use it whenever the answer depends on today's date or on counting days, weeks, months or years. " +
+    'action "now" returns the current time; "add" adds amount units to date; "diff" counts whole units from date to to.',
+  parameters: {
+    type: "object",
+    properties: {
+      action: { type: "string", enum: ["now", "add", "diff"] },
+      timezone: {
+        type: "string",
+        description: "IANA time zone for the local time in the result, e.g. Europe/Moscow. Defaults to UTC."
+      },
+      date: {
+        type: "string",
+        description: "ISO 8601 date or date-time for add and diff. Defaults to now."
+      },
+      to: { type: "string", description: "ISO 8601 end date for diff. Defaults to now." },
+      amount: { type: "number", description: "Number of units for add; negative subtracts." },
+      unit: { type: "string", enum: UNITS, description: "Unit for add and diff. Defaults to days." }
+    },
+    required: ["action"]
+  },
+
+  execute(args) {
+    const timeZone = getTimeZone(args.timezone);
+    const describe = (date: Date) => ({
+      iso: date.toISOString(),
+      local: formatInZone(date, timeZone),
+      timezone: timeZone
+    });
+
+    if (args.action === "now") {
+      return JSON.stringify(describe(new Date()));
+    }
+
+    if (args.action === "add") {
+      const amount = Number(args.amount);
+      if (!Number.isFinite(amount)) throw new Error("Не передано количество amount.");
+      const result = addToDate(parseDate(args.date, "date"), amount, parseUnit(args.unit));
+      return JSON.stringify(describe(result));
+    }
+
+    if (args.action === "diff") {
+      const unit = parseUnit(args.unit);
+      const value = diffDates(parseDate(args.date, "date"), parseDate(args.to, "to"), unit);
+      return JSON.stringify({ value, unit });
+    }
+
+    throw new Error("Действие должно быть now, add или diff.");
+  }
+};
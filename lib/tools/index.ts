@@ -0,0 +1,83 @@
+import type { ToolCall, ToolDefinition } from "@/lib/providers";
+import { calculatorTool } from "./calculator";
+import { datetimeTool } from "./datetime";
+import type { ChatTool } from "./types";
+
+export type { ChatTool } from "./types";
+
+export type ToolResult = {
+  output: string;
+  isError: boolean;
+};
+
+const TOOLS: ChatTool[] = [calculatorTool, datetimeTool];
+const DEFAULT_TOOLS = ["calculator", "datetime"];
+
+let spaceTools: { fallback: string[]; spaces: Record<number, string[]> } | null = null;
+
+function parseToolNames(input: unknown) {
+  return Array.isArray(input)
+    ? input.filter((name): name is string => TOOLS.some((tool) => tool.name === name))
+    : null;
+}
+
+/**
+ * CHAT_TOOLS is JSON such as
+ * `{"default":["calculator","datetime"],"spaces":{"3":["calculator"],"4":[]}}`.
+ * Spaces without an entry get `default`; without CHAT_TOOLS every space gets
+ * the calculator and the date tool.
+ */
+function getSpaceTools() {
+  if (spaceTools) return spaceTools;
+
+  let raw: Record<string, unknown> = {};
+  try {
+    raw = JSON.parse(process.env.CHAT_TOOLS || "{}");
+  } catch {
+    // Invalid CHAT_TOOLS falls back to the defaults instead of breaking chats.
+  }
+
+  const spaces: Record<number, string[]> = {};
+  const rawSpaces = raw.spaces && typeof raw.spaces === "object" ? raw.spaces : {};
+  for (const [key, value] of Object.entries(rawSpaces)) {
+    const space = Number(key);
+    const names = parseToolNames(value);
+    if ([1, 2, 3, 4].includes(space) && names) {
+      spaces[space] = names;
+    }
+  }
+
+  spaceTools = { fallback: parseToolNames(raw.default) ?? DEFAULT_TOOLS, spaces };
+  return spaceTools;
+}
+
+export function getSpaceToolList(space: number) {
+  const config = getSpaceTools();
+  const names = config.spaces[space] ?? config.fallback;
+  return TOOLS.filter((tool) => names.includes(tool.name));
+}
+
+export function toToolDefinitions(tools: ChatTool[]): ToolDefinition[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+export function getToolLabel(name: string) {
+  return TOOLS.find((tool) => tool.name === name)?.label ?? name;
+}
+
+/** Never throws: failures are reported to the model so it can correct the call. */
+export async function executeToolCall(tools: ChatTool[], call: ToolCall): Promise<ToolResult> {
+  const tool = tools.find((item) => item.name === call.name);
+  if (!tool) {
+    return { output: `Инструмент ${call.name} недоступен.`, isError: true };
+  }
+
+  try {
+    return { output: await tool.execute(call.arguments), isError: false };
+  } catch (error) {
+    return {
+      output: error instanceof Error ? error.message : "Инструмент завершился с ошибкой.",
+      isError: true
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import type { ToolDefinition } from "@/lib/providers";
+
+export type ChatTool = ToolDefinition & {
+  /** Name shown in the chat next to the call. */
+  label: string;
+  /** Returns the text sent back to the model; a thrown Error becomes an error result. */
+  execute(args: Record<string, unknown>): Promise<string> | string;
+};
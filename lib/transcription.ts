@@ -0,0 +1,160 @@
+import OpenAI, { toFile } from "openai";
+import { calculateAudioCost, calculateCost } from "@/lib/pricing";
+import type { TokenUsage } from "@/lib/providers";
+
+export type AudioClip = {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+};
+
+export type Transcription = {
+  text: string;
+  /** Engine id, recorded as the usage provider. */
+  engine: string;
+  model: string;
+  usage: TokenUsage;
+  /** USD; null when the model has no known price. */
+  cost: number | null;
+};
+
+type TranscriptionEngine = {
+  id: string;
+  isConfigured: () => boolean;
+  transcribe: (clip: AudioClip) => Promise<Transcription>;
+};
+
+/** Formats accepted by OpenAI-style `/audio/transcriptions` endpoints. */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "mp4",
+  "audio/x-m4a": "m4a",
+  "audio/m4a": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/flac": "flac"
+};
+
+let localClient: OpenAI | null = null;
+let openAiClient: OpenAI | null = null;
+
+function getLocalClient() {
+  if (!localClient) {
+    localClient = new OpenAI({
+      baseURL: process.env.LOCAL_STT_BASE_URL,
+      apiKey: process.env.LOCAL_STT_API_KEY || "local"
+    });
+  }
+  return localClient;
+}
+
+function getOpenAiClient() {
+  if (!openAiClient) {
+    openAiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openAiClient;
+}
+
+/** Drops codec parameters: `audio/webm;codecs=opus` → `audio/webm`. */
+export function normalizeAudioMimeType(mimeType: string) {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+export function isSupportedAudio(mimeType: string) {
+  return normalizeAudioMimeType(mimeType) in AUDIO_EXTENSIONS;
+}
+
+export function getAudioExtension(mimeType: string) {
+  return AUDIO_EXTENSIONS[normalizeAudioMimeType(mimeType)] ?? "webm";
+}
+
+/**
+ * Token-billed models report tokens, whisper-style ones the audio duration;
+ * servers that report neither are recorded with zero usage.
+ */
+async function transcribeWith(engine: string, client: OpenAI, model: string, clip: AudioClip) {
+  const file = await toFile(clip.data, clip.name, { type: normalizeAudioMimeType(clip.mimeType) });
+  const result = await client.audio.transcriptions.create({
+    file,
+    model,
+    language: process.env.TRANSCRIPTION_LANGUAGE || undefined
+  });
+
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+  let cost: number | null = calculateAudioCost(engine, model, 0);
+  if (result.usage?.type === "tokens") {
+    usage.inputTokens = result.usage.input_tokens;
+    usage.outputTokens = result.usage.output_tokens;
+    cost = calculateCost(engine, model, usage);
+  } else if (result.usage?.type === "duration") {
+    cost = calculateAudioCost(engine, model, result.usage.seconds);
+  }
+  return { text: result.text.trim(), engine, model, usage, cost };
+}
+
+/**
+ * Speech-to-text servers with an OpenAI-compatible API: faster-whisper-server,
+ * Speaches, LocalAI, whisper.cpp behind a proxy.
+ */
+const localEngine: TranscriptionEngine = {
+  id: "local",
+  isConfigured: () => Boolean(process.env.LOCAL_STT_BASE_URL),
+  transcribe: (clip) =>
+    transcribeWith("local", getLocalClient(), process.env.LOCAL_STT_MODEL || "whisper-1", clip)
+};
+
+const openAiEngine: TranscriptionEngine = {
+  id: "openai",
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  transcribe: (clip) =>
+    transcribeWith(
+      "openai",
+      getOpenAiClient(),
+      process.env.OPENAI_TRANSCRIPTION_MODEL || "gpt-4o-mini-transcribe",
+      clip
+    )
+};
+
+const mockEngine: TranscriptionEngine = {
+  id: "mock",
+  isConfigured: () => process.env.ENABLE_MOCK_PROVIDER === "1",
+  transcribe: async (clip) => ({
+    text: `Тестовая расшифровка записи ${clip.name} (${Math.ceil(clip.data.byteLength / 1024)} КБ).`,
+    engine: "mock",
+    model: "mock-transcribe",
+    usage: { inputTokens: 0, outputTokens: 0, cachedTokens: 0 },
+    cost: 0
+  })
+};
+
+const ENGINES = [localEngine, openAiEngine, mockEngine];
+
+/**
+ * TRANSCRIPTION_ENGINE picks the engine explicitly; otherwise the local
+ * server is preferred so recordings stay on-premises when one is configured.
+ */
+export function getTranscriptionEngine() {
+  const requested = process.env.TRANSCRIPTION_ENGINE;
+  if (requested) {
+    const engine = ENGINES.find((item) => item.id === requested);
+    return engine?.isConfigured() ? engine : null;
+  }
+  return ENGINES.find((engine) => engine.isConfigured()) ?? null;
+}
+
+export async function transcribeAudio(clip: AudioClip): Promise<Transcription> {
+  const engine = getTranscriptionEngine();
+  if (!engine) {
+    throw new Error("Распознавание речи не настроено.");
+  }
+
+  try {
+    return await engine.transcribe(clip);
+  } catch {
+    throw new Error("Не удалось распознать речь. Попробуйте ещё раз или введите текст.");
+  }
+}
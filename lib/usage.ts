@@ -0,0 +1,19 @@
+export type UsagePeriod = "day" | "month" | "all";
+
+export const USAGE_PERIODS: UsagePeriod[] = ["day", "month", "all"];
+
+export function parseUsagePeriod(value: string | null): UsagePeriod | null {
+  const period = value ?? "month";
+  return USAGE_PERIODS.includes(period as UsagePeriod) ? (period as UsagePeriod) : null;
+}
+
+/** Start of the current calendar day or month in server time, as an ISO string. */
+export function getUsagePeriodStart(period: UsagePeriod, now = new Date()) {
+  if (period === "all") return null;
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === "month") {
+    start.setDate(1);
+  }
+  return start.toISOString();
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const AUTH_COOKIE = "site_auth";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session-token";
 
 function isPublicPath(pathname: string) {
   return pathname === "/auth" || pathname.startsWith("/api/auth");
@@ -13,7 +12,9 @@ export function proxy(req: NextRequest) {
     return NextResponse.next();
   }
 
-  const isAuthenticated = req.cookies.get(AUTH_COOKIE)?.value === "1";
+  // Only the cookie signature is checked here; API routes also check the
+  // session against the database so revoked sessions stop working.
+  const isAuthenticated = verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value) !== null;
   if (isAuthenticated) {
     return NextResponse.next();
   }